@@ -42,13 +42,13 @@ export const createMockGettextParser = (): PoApi => ({
         catalog.headers["po-revision-date"] = revisionMatch[1];
       }
 
-      // Parse msgid/msgstr pairs with optional msgctxt
-      // This regex handles: [msgctxt "context"] msgid "id" msgstr "translation"
-      const msgEntryRegex = /(?:msgctxt\s+"([^"]+)"\s+)?msgid\s+"([^"]+)"\s+msgstr\s+"([^"]*)"/g;
+      // Parse msgid/msgstr pairs with optional extracted comments and msgctxt
+      // This regex handles: [#. comment] [msgctxt "context"] msgid "id" msgstr "translation"
+      const msgEntryRegex = /((?:^#\. .*\n)*)(?:msgctxt\s+"([^"]+)"\s+)?msgid\s+"([^"]+)"\s+msgstr\s+"([^"]*)"/gm;
       let match;
 
       while ((match = msgEntryRegex.exec(content)) !== null) {
-        const [, msgctxt, msgid, msgstr] = match;
+        const [, extractedLines, msgctxt, msgid, msgstr] = match;
 
         // Skip empty msgid (header entry)
         if (!msgid || msgid === "") continue;
@@ -64,7 +64,7 @@ export const createMockGettextParser = (): PoApi => ({
           msgid,
           msgctxt: msgctxt || undefined,
           msgstr: [msgstr || ""],
-          comments: {},
+          comments: extractedLines ? { extracted: extractedLines.trimEnd().replace(/^#\. /gm, "") } : {},
         };
       }
 
@@ -3,18 +3,21 @@ import path from "path";
 import { Command } from "commander";
 import { extractKeysAndGeneratePotFile } from "./extract/extract";
 import { syncPoFiles } from "./sync/sync";
-import { convertPoToJson, convertMultiplePoToJson } from "./convert/convert";
+import { convertPoToJson, convertMultiplePoToJson, localeJsonPath } from "./convert/convert";
+import { localePoPattern } from "./utils/glob";
 import { showTranslationStatus } from "./status/status";
+import { showKeyMigration, parseNormalizationKinds } from "./migrate/migrate";
 import { loadConfig } from "@/index";
 
 // CLI Option Types - properly typed interfaces instead of relying on 'any'
 type ExtractOptions = {
-  include: string[];
+  include?: string[];
   source?: string;
   output?: string;
   projectId?: string;
-  exclude: string[];
+  exclude?: string[];
   tsconfig?: string;
+  strict?: boolean;
 };
 
 type SyncOptions = {
@@ -24,7 +27,7 @@ type SyncOptions = {
 };
 
 type ConvertOptions = {
-  output: string;
+  output?: string;
   input?: string;
   topLevelKey?: string;
   indent?: string;
@@ -32,6 +35,11 @@ type ConvertOptions = {
   verbose?: boolean;
 };
 
+type MigrateKeysOptions = {
+  template?: string;
+  normalization?: string[];
+};
+
 type StatusOptions = {
   directory: string;
   verbose?: boolean;
@@ -50,14 +58,22 @@ program
 program
   .command("extract")
   .description("Extract translation keys and generate POT files from i18next-auto-keys sources")
-  .requiredOption("-i, --include <patterns...>", "File patterns to include")
-  .option("-s, --source <path>", "Source directory to scan for translation keys (default: current directory)")
+  .option("-i, --include <patterns...>", "File patterns to include (default: config include)")
+  .option(
+    "-s, --source <path>",
+    "Source directory to scan for translation keys (default: the config file's directory, or the current directory)"
+  )
   .option("-o, --output <path>", "Output path for the POT file")
   .option(
     "-p, --project-id <id>",
     "Project ID for POT header (defaults to package.json name and version, fallback: 'app 1.0')"
   )
-  .option("-e, --exclude <patterns...>", "File patterns to exclude", ["node_modules/**", "dist/**", "build/**"])
+  .option(
+    "-e, --exclude <patterns...>",
+    "File patterns to exclude (default: config exclude, fallback: node_modules/**, dist/**, build/**)"
+  )
+  .option("--tsconfig <path>", "tsconfig.json used to resolve constants and enum members across files")
+  .option("--strict", "Fail when message-like functions are skipped or files fail to process")
   .action(async (options: ExtractOptions) => {
     try {
       const poTemplatePath = path.join(config.poOutputDirectory, config.poTemplateName);
@@ -67,6 +83,8 @@ program
         projectId: options.projectId ?? config.projectId,
         include: options.include,
         exclude: options.exclude,
+        tsconfig: options.tsconfig,
+        strict: options.strict,
       });
     } catch (error) {
       console.error("❌ Error extracting translation keys:", error);
@@ -84,7 +102,7 @@ program
   .action(async (options: SyncOptions) => {
     try {
       const poTemplatePath = path.join(config.poOutputDirectory, config.poTemplateName);
-      const poFilesGlob = path.join(config.poOutputDirectory, "*.po");
+      const poFilesGlob = localePoPattern(config.poOutputDirectory, config.locales);
 
       await syncPoFiles({
         template: options.template ?? poTemplatePath,
@@ -101,9 +119,9 @@ program
 program
   .command("convert")
   .description("Convert .po files to i18next compatible JSON format")
-  .requiredOption(
+  .option(
     "-o, --output <path>",
-    "Output JSON file path (for single file) or output directory (for multiple files)"
+    "Output JSON file path (for single file) or output directory (for multiple files) (default: config jsonOutputPath with {{lng}})"
   )
   .option("-i, --input <path>", "Input .po file path or glob pattern for multiple files")
   .option("-t, --top-level-key <key>", "Wrap translations under a top-level key (matches emit plugin)")
@@ -114,12 +132,16 @@ program
     try {
       const indent = options.indent ? parseInt(options.indent.toString(), 10) : config.jsonIndentSpaces;
       const topLevelKey = options.topLevelKey ?? config.topLevelKey;
-      const poFilesGlob = path.join(config.poOutputDirectory, "*.po");
+      const poFilesGlob = localePoPattern(config.poOutputDirectory, config.locales);
+      if (!options.output && !config.jsonOutputPath) {
+        throw new Error("Output path is required. Use -o/--output option or set jsonOutputPath in the config.");
+      }
 
       if (options.batch) {
         await convertMultiplePoToJson({
           pattern: options.input ?? poFilesGlob,
           outputDir: options.output,
+          jsonOutputPath: config.jsonOutputPath,
           topLevelKey,
           indent,
           verbose: options.verbose,
@@ -132,7 +154,7 @@ program
         }
         await convertPoToJson({
           input: options.input,
-          output: options.output,
+          output: options.output ?? localeJsonPath(config.jsonOutputPath!, path.basename(options.input, ".po")),
           topLevelKey,
           indent,
           verbose: options.verbose,
@@ -164,6 +186,28 @@ program
     }
   });
 
+// Key migration command
+program
+  .command("migrate-keys")
+  .description("Show which keys would change if hashNormalization were enabled")
+  .option("-t, --template <path>", "PO template file path")
+  .option(
+    "-n, --normalization <kinds...>",
+    "Normalization to compare with: whitespace, icuPunctuation, quotes (default: whitespace, icuPunctuation, as with hashNormalization: true)"
+  )
+  .action(async (options: MigrateKeysOptions) => {
+    try {
+      const poTemplatePath = path.join(config.poOutputDirectory, config.poTemplateName);
+      await showKeyMigration({
+        template: options.template ?? poTemplatePath,
+        normalization: options.normalization ? parseNormalizationKinds(options.normalization) : undefined,
+      });
+    } catch (error) {
+      console.error("❌ Error comparing keys:", error);
+      process.exit(1);
+    }
+  });
+
 // Always parse when the CLI is run (webpack bundles remove require.main check)
 program.parse(process.argv);
 
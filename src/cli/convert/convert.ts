@@ -2,17 +2,32 @@ import fs from "fs";
 import path from "path";
 import { sync as globSync } from "glob";
 import { normalizeGlobPattern } from "../utils/glob";
+import { resolvePoEntryKeys } from "../utils/explicitKeys";
+import { parseNamespaceComments } from "../utils/namespaceComments";
 import { loadGettextParser } from "../loadGettextParser";
-import { stableHash, loadConfig } from "@/index";
+import { loadConfig } from "@/index";
+import { keyLockPath, readKeyLock, lockedKeysBySource } from "../../common/keyLock";
+import {
+  buildJsonOutputs,
+  hasLocalePlaceholder,
+  localizeOutputPath,
+  namespaceOutputPath,
+  unsplitNamespaces,
+} from "../../common/jsonOutput";
+import type { JsonEntry } from "../../common/jsonOutput";
+import type { IcuMode } from "../../common/nativeFormat";
 
 const MAX_LENGTH = 60;
 
 export type ConvertPoOptions = {
   input: string;
+  /** Output path, optionally containing the {{ns}} placeholder to write one file per namespace */
   output: string;
   topLevelKey?: string;
   indent?: number;
   verbose?: boolean;
+  /** "native" converts ICU translations to i18next interpolation and plural suffix keys. Defaults to config. */
+  icuMode?: IcuMode;
 };
 
 /**
@@ -24,8 +39,12 @@ export type ConvertPoOptions = {
 export async function convertPoToJson(options: ConvertPoOptions): Promise<void> {
   const { input, output, topLevelKey, verbose, indent = 2 } = options;
 
-  // Load config to get hash length
+  // Load config to get hash length and ICU mode
   const { config } = loadConfig();
+  const icuMode = options.icuMode ?? config.icuMode;
+  const lockedKeys = config.keyLock
+    ? lockedKeysBySource(readKeyLock(keyLockPath(config.poOutputDirectory)))
+    : undefined;
 
   console.log(`📖 Converting .po file to i18next JSON: ${input}`);
   console.log(`📁 Output: ${output}`);
@@ -43,7 +62,7 @@ export async function convertPoToJson(options: ConvertPoOptions): Promise<void>
   const catalog = parser.po.parse(poBuffer);
 
   // Extract translations
-  const translations: Record<string, string> = {};
+  const translations: JsonEntry[] = [];
   let translationCount = 0;
   let untranslatedCount = 0;
 
@@ -67,45 +86,74 @@ export async function convertPoToJson(options: ConvertPoOptions): Promise<void>
         continue;
       }
 
-      // Generate hash from msgid + msgctxt (translation context)
-      const key = stableHash(msgid, { context: msgctxt, hashLength: config.hashLength });
+      // Use the @key tags carried in the extracted comments, otherwise the locked keys of the
+      // text or the key computed from msgid + msgctxt (translation context)
+      const keys = resolvePoEntryKeys({ ...(entryData as any), msgid }, config, lockedKeys);
 
-      // Use the generated hash as a flat key (no nesting)
-      translations[key] = msgstr;
+      // The namespaces recorded by extract; entries without one go to the default namespace
+      const namespaces = parseNamespaceComments((entryData as any).comments?.extracted);
+      for (const key of keys) {
+        if (namespaces.length === 0) translations.push({ id: key, source: msgstr });
+        for (const namespace of namespaces) translations.push({ id: key, source: msgstr, namespace });
+      }
       translationCount++;
     }
   }
 
   console.log(`🔑 Processed ${translationCount} translations. Skipped ${untranslatedCount} untranslated entries.`);
 
-  // Sort translations by key for consistent output (matches emit plugin behavior)
-  const sortedTranslations: Record<string, string> = {};
-  Object.keys(translations)
-    .sort()
-    .forEach((key) => {
-      sortedTranslations[key] = translations[key];
-    });
-
-  // Wrap under topLevelKey if specified (matches emit plugin behavior)
-  let output_data: any = sortedTranslations;
-  if (topLevelKey) {
-    output_data = { [topLevelKey]: sortedTranslations };
+  const merged = unsplitNamespaces(translations, output);
+  if (merged.length > 0) {
+    console.warn(
+      `⚠️  Messages from namespaces ${merged.join(", ")} are merged into ${output}; add {{ns}} to the output path to split them`
+    );
   }
 
-  // Ensure output directory exists
-  const outputDir = path.dirname(output);
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
+  // Flat keys (no nesting), sorted, one file per namespace with {{ns}} (matches emit plugin behavior);
+  // native mode may add plural suffix keys
+  const outputs = buildJsonOutputs(translations, {
+    jsonOutputPath: output,
+    topLevelKey,
+    indentSpaces: indent,
+    defaultNamespace: config.defaultNamespace,
+    icuMode,
+  });
+
+  for (const { namespace, content } of outputs) {
+    // The output path as given, with platform separators
+    const fileName = namespace === undefined ? output : namespaceOutputPath(output, namespace);
+
+    // Ensure output directory exists
+    const outputDir = path.dirname(fileName);
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
 
-  // Write JSON file
-  const jsonContent = JSON.stringify(output_data, null, indent);
-  fs.writeFileSync(output, jsonContent, "utf8");
+    // Write JSON file
+    fs.writeFileSync(fileName, content, "utf8");
 
-  // Get file size from content (more efficient than fs.statSync)
-  const fileSizeKB = (Buffer.byteLength(jsonContent, "utf8") / 1024).toFixed(2);
+    // Get file size from content (more efficient than fs.statSync)
+    const fileSizeKB = (Buffer.byteLength(content, "utf8") / 1024).toFixed(2);
 
-  console.log(`✅ i18next JSON file generated: ${output} (${fileSizeKB} KB)`);
+    console.log(`✅ i18next JSON file generated: ${fileName} (${fileSizeKB} KB)`);
+  }
+}
+
+/**
+ * Output path of a locale's JSON from the config's `jsonOutputPath`, e.g. "locales/{{lng}}.json".
+ * The path must vary by locale; a {{ns}} placeholder is kept, so each namespace gets its own file.
+ */
+export function localeJsonPath(jsonOutputPath: string, locale: string): string {
+  checkLocaleJsonPath(jsonOutputPath);
+  return localizeOutputPath(jsonOutputPath, locale);
+}
+
+function checkLocaleJsonPath(jsonOutputPath: string): void {
+  if (!hasLocalePlaceholder(jsonOutputPath)) {
+    throw new Error(
+      `Cannot derive the JSON output of each locale from jsonOutputPath "${jsonOutputPath}": it needs a {{lng}} placeholder. Use -o/--output instead.`
+    );
+  }
 }
 
 /**
@@ -114,12 +162,21 @@ export async function convertPoToJson(options: ConvertPoOptions): Promise<void>
  */
 export async function convertMultiplePoToJson(options: {
   pattern: string;
-  outputDir: string;
+  /** Directory receiving `<locale>.json` for each `<locale>.po` */
+  outputDir?: string;
+  /** Used when no outputDir is given: a path with a {{lng}} placeholder, e.g. "locales/{{lng}}/{{ns}}.json" */
+  jsonOutputPath?: string;
   topLevelKey?: string;
   indent?: number;
   verbose?: boolean;
 }): Promise<void> {
-  const { pattern, outputDir, topLevelKey, indent = 2, verbose } = options;
+  const { pattern, outputDir, jsonOutputPath, topLevelKey, indent = 2, verbose } = options;
+  if (!outputDir) {
+    if (!jsonOutputPath) {
+      throw new Error("An output directory or a jsonOutputPath with a {{lng}} placeholder is required.");
+    }
+    checkLocaleJsonPath(jsonOutputPath);
+  }
 
   console.log(`🔍 Scanning for .po files using pattern: ${pattern}`);
 
@@ -133,14 +190,14 @@ export async function convertMultiplePoToJson(options: {
   }
 
   // Ensure output directory exists
-  if (!fs.existsSync(outputDir)) {
+  if (outputDir && !fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
   // Process each .po file
   for (const poFile of poFiles) {
     const baseName = path.basename(poFile, ".po");
-    const jsonFile = path.join(outputDir, `${baseName}.json`);
+    const jsonFile = outputDir ? path.join(outputDir, `${baseName}.json`) : localeJsonPath(jsonOutputPath!, baseName);
 
     try {
       await convertPoToJson({
@@ -155,5 +212,5 @@ export async function convertMultiplePoToJson(options: {
     }
   }
 
-  console.log(`✅ Batch conversion completed. Output directory: ${outputDir}`);
+  console.log(`✅ Batch conversion completed. Output: ${outputDir ?? jsonOutputPath}`);
 }
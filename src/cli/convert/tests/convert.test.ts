@@ -3,6 +3,7 @@ import fs from "fs";
 import path from "path";
 import { convertPoToJson, convertMultiplePoToJson } from "../convert";
 import { stableHash } from "../../../common/hash";
+import { loadConfig } from "../../../common/config/loadConfig";
 
 // loadGettextParser and loadConfig are automatically mocked by Jest setup
 
@@ -141,6 +142,114 @@ describe("convertPoToJson", () => {
     expect(parsedJson).toHaveProperty(simpleHash, "Mensaje simple sin contexto");
   });
 
+  it("should expand ICU plurals into i18next suffix keys in native icuMode", async () => {
+    const msgid = "{count, plural, one {# file} other {# files}}";
+    mockedFs.readFileSync.mockReturnValue(
+      Buffer.from(`msgid ""
+msgstr ""
+"Language: es\\n"
+
+msgid "${msgid}"
+msgstr "{count, plural, one {# archivo} other {# archivos}}"
+`)
+    );
+
+    await convertPoToJson({
+      input: "/test/input.po",
+      output: "/test/output.json",
+      icuMode: "native",
+    });
+
+    const writtenContent = (mockedFs.writeFileSync as jest.Mock).mock.calls[0][1] as string;
+    const hash = stableHash(msgid, { hashLength: 10 });
+    expect(JSON.parse(writtenContent)).toEqual({
+      [`${hash}_one`]: "{{count}} archivo",
+      [`${hash}_other`]: "{{count}} archivos",
+    });
+  });
+
+  it("should use explicit @key comments instead of the generated hash", async () => {
+    mockedFs.readFileSync.mockReturnValue(
+      Buffer.from(`msgid ""
+msgstr ""
+"Language: es\\n"
+
+#. Title of the login page
+#. @key legacy.login.title
+#. @key legacy.login.button
+msgid "Log In"
+msgstr "Iniciar sesión"
+`)
+    );
+
+    await convertPoToJson({
+      input: "/test/input.po",
+      output: "/test/output.json",
+    });
+
+    const writtenContent = (mockedFs.writeFileSync as jest.Mock).mock.calls[0][1] as string;
+    expect(JSON.parse(writtenContent)).toEqual({
+      "legacy.login.button": "Iniciar sesión",
+      "legacy.login.title": "Iniciar sesión",
+    });
+  });
+
+  it("should write one file per namespace when the output path has {{ns}}", async () => {
+    mockedFs.readFileSync.mockReturnValue(
+      Buffer.from(`msgid ""
+msgstr ""
+"Language: es\n"
+
+#. @namespace checkout
+#. @namespace translation
+msgid "Save"
+msgstr "Guardar"
+
+#. @namespace checkout
+msgid "Pay"
+msgstr "Pagar"
+
+msgid "Hello"
+msgstr "Hola"
+`)
+    );
+
+    await convertPoToJson({
+      input: "/test/es.po",
+      output: "/test/locales/es/{{ns}}.json",
+    });
+
+    const written = Object.fromEntries(
+      (mockedFs.writeFileSync as jest.Mock).mock.calls.map((call) => [call[0], JSON.parse(call[1] as string)])
+    );
+    const hash = (text: string) => stableHash(text, { hashLength: 10 });
+    expect(written).toEqual({
+      "/test/locales/es/checkout.json": { [hash("Pay")]: "Pagar", [hash("Save")]: "Guardar" },
+      "/test/locales/es/translation.json": { [hash("Hello")]: "Hola", [hash("Save")]: "Guardar" },
+    });
+  });
+
+  it("should warn when namespaces are merged into a single file", async () => {
+    mockedFs.readFileSync.mockReturnValue(
+      Buffer.from(`msgid ""
+msgstr ""
+"Language: es\n"
+
+#. @namespace checkout
+msgid "Pay"
+msgstr "Pagar"
+`)
+    );
+
+    await convertPoToJson({
+      input: "/test/es.po",
+      output: "/test/locales/es.json",
+    });
+
+    expect(mockedFs.writeFileSync).toHaveBeenCalledTimes(1);
+    expect(mockConsole.warn).toHaveBeenCalledWith(expect.stringContaining("namespaces checkout are merged"));
+  });
+
   it("should wrap translations under topLevelKey when specified", async () => {
     await convertPoToJson({
       input: "/test/input.po",
@@ -273,6 +382,75 @@ msgstr "M Translation"
     ).rejects.toThrow("Input file not found: /test/nonexistent.po");
   });
 
+  it("should compute keys with the configured keyStrategy", async () => {
+    const { config } = loadConfig();
+    (loadConfig as jest.Mock).mockReturnValueOnce({ config: { ...config, keyStrategy: "sha256" } });
+
+    await convertPoToJson({
+      input: "/test/input.po",
+      output: "/test/output.json",
+    });
+
+    const writtenContent = (mockedFs.writeFileSync as jest.Mock).mock.calls[0][1] as string;
+    const parsedJson = JSON.parse(writtenContent);
+
+    const signInHash = stableHash("Sign In", { context: "authentication", hashLength: 10, algorithm: "sha256" });
+    expect(parsedJson).toHaveProperty(signInHash, "Iniciar Sesión");
+    expect(parsedJson).not.toHaveProperty(stableHash("Sign In", { context: "authentication", hashLength: 10 }));
+  });
+
+  it("should compute keys from normalized text with hashNormalization", async () => {
+    const { config } = loadConfig();
+    (loadConfig as jest.Mock).mockReturnValueOnce({ config: { ...config, hashNormalization: true } });
+    mockedFs.readFileSync.mockReturnValue(
+      Buffer.from(`msgid ""
+msgstr ""
+
+msgid "You have   {count, plural, one {# file} other {# files}}"
+msgstr "Tienes {count, plural, one {# archivo} other {# archivos}}"
+`)
+    );
+
+    await convertPoToJson({
+      input: "/test/input.po",
+      output: "/test/output.json",
+    });
+
+    const writtenContent = (mockedFs.writeFileSync as jest.Mock).mock.calls[0][1] as string;
+    const key = stableHash("You have{count,plural,one{# file}other{# files}}", { hashLength: 10 });
+    expect(Object.keys(JSON.parse(writtenContent))).toEqual([key]);
+  });
+
+  it("should use the keys locked for an entry's text", async () => {
+    const { config } = loadConfig();
+    (loadConfig as jest.Mock).mockReturnValueOnce({
+      config: { ...config, keyLock: true, poOutputDirectory: "/test/i18n" },
+    });
+    const lock = {
+      version: 1,
+      messages: {
+        "src/auth.messages.ts#Auth.signIn": {
+          key: "abcdef1234",
+          source: "Sign In",
+          translationContext: "authentication",
+        },
+      },
+    };
+    (mockedFs.readFileSync as jest.Mock).mockImplementation((file: unknown) =>
+      file === "/test/i18n/keys.lock.json" ? JSON.stringify(lock) : Buffer.from(samplePoContent)
+    );
+
+    await convertPoToJson({
+      input: "/test/input.po",
+      output: "/test/output.json",
+    });
+
+    const writtenContent = (mockedFs.writeFileSync as jest.Mock).mock.calls[0][1] as string;
+    const parsedJson = JSON.parse(writtenContent);
+    expect(parsedJson).toHaveProperty("abcdef1234", "Iniciar Sesión");
+    expect(parsedJson).toHaveProperty(stableHash("Welcome Back!", { context: "authentication", hashLength: 10 }));
+  });
+
   it("should generate hash keys based on msgid and msgctxt", async () => {
     await convertPoToJson({
       input: "/test/input.po",
@@ -372,6 +550,53 @@ describe("convertMultiplePoToJson", () => {
     expect(mockedFs.mkdirSync).toHaveBeenCalledWith("/test/output/", { recursive: true });
   });
 
+  it("should write each locale to a jsonOutputPath with a {{lng}} placeholder", async () => {
+    mockGlob.sync.mockReturnValue(["/test/es.po", "/test/fr.po"]);
+    (mockedFs.readFileSync as jest.Mock).mockImplementation((filePath: any) =>
+      Buffer.from(filePath === "/test/es.po" ? samplePoContent : samplePoContentSecond)
+    );
+
+    await convertMultiplePoToJson({
+      pattern: "/test/*.po",
+      jsonOutputPath: "/test/locales/{{lng}}/translation.json",
+    });
+
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+      "/test/locales/es/translation.json",
+      expect.any(String),
+      "utf8"
+    );
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+      "/test/locales/fr/translation.json",
+      expect.any(String),
+      "utf8"
+    );
+  });
+
+  it("should keep the {{ns}} placeholder of the jsonOutputPath for each locale", async () => {
+    mockGlob.sync.mockReturnValue(["/test/es.po"]);
+
+    await convertMultiplePoToJson({
+      pattern: "/test/*.po",
+      jsonOutputPath: "/test/locales/{{lng}}/{{ns}}.json",
+    });
+
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+      "/test/locales/es/translation.json",
+      expect.any(String),
+      "utf8"
+    );
+  });
+
+  it("should reject a jsonOutputPath that doesn't vary by locale", async () => {
+    mockGlob.sync.mockReturnValue(["/test/es.po"]);
+
+    await expect(
+      convertMultiplePoToJson({ pattern: "/test/*.po", jsonOutputPath: "/test/locales/en.json" })
+    ).rejects.toThrow("needs a {{lng}} placeholder");
+    expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+  });
+
   it("should warn when no PO files found", async () => {
     mockGlob.sync.mockReturnValue([]);
 
@@ -2,18 +2,38 @@ import fs from "fs";
 import path from "path";
 import { sync as globSync } from "glob";
 import { normalizeGlobPattern } from "../utils/glob";
+import { DEFAULT_EXCLUDE } from "../../common/filePatterns";
+import { FALLBACK_NAMESPACE } from "../../common/jsonOutput";
 import type { ParameterMetadata } from "../../common/i18nStore";
 import { loadGettextParser } from "../loadGettextParser";
-import type { GetTextTranslationRecord } from "gettext-parser";
+import { formatExplicitKeyComment } from "../utils/explicitKeys";
+import { formatNamespaceComment } from "../utils/namespaceComments";
+import type { GetTextTranslation, GetTextTranslationRecord } from "gettext-parser";
 
 import { loadConfig, i18nStore, transformMessages } from "@/index";
+import { computeKey } from "../../common/keyStrategy";
+import type { KeyOptions } from "../../common/keyStrategy";
+import { resolveHashNormalization } from "../../common/hash";
+import { keyLockPath, readKeyLock, writeKeyLock, updateKeyLock } from "../../common/keyLock";
+import type { KeyLock, KeyLockEntry } from "../../common/keyLock";
+import { formatKeyCollision } from "../../common/i18nStore";
+import { formatDiagnostic } from "../../common/transformer/transformer";
+import type { TransformResult } from "../../common/transformer/transformer";
+import type { AutoContext } from "../../common/transformer/helpers";
 
 export type ExtractOptions = {
+  /** Directory the globs are relative to. Defaults to the config file's directory, like the bundler plugins */
   source?: string;
   output: string;
   projectId?: string;
-  include: string[];
+  /** Globs of the files to scan. Defaults to the config's `include` */
+  include?: string[];
+  /** Globs of the files to skip. Defaults to the config's `exclude`, or node_modules, dist and build */
   exclude?: string[];
+  /** tsconfig.json used to resolve `const` strings and enum members across files */
+  tsconfig?: string;
+  /** Fail instead of writing the POT file when messages were skipped or files failed to process */
+  strict?: boolean;
 };
 
 /**
@@ -21,15 +41,21 @@ export type ExtractOptions = {
  * containing all translation keys found by the i18next-auto-keys transformer.
  */
 export async function extractKeysAndGeneratePotFile(options: ExtractOptions): Promise<void> {
-  const { config } = loadConfig();
+  const { config, rootDir } = loadConfig();
   const {
-    source = process.cwd(),
+    source = rootDir,
     output,
     projectId = config.projectId,
-    include,
-    exclude = ["node_modules/**", "dist/**", "build/**"],
+    include = config.include,
+    exclude = config.exclude ?? DEFAULT_EXCLUDE,
+    tsconfig,
+    strict = false,
   } = options;
 
+  if (!include || include.length === 0) {
+    throw new Error("No files to scan: pass --include patterns or set `include` in the i18next-auto-keys config.");
+  }
+
   console.log(`🔍 Scanning for translation keys using patterns: ${include.join(", ")}`);
   console.log(`📁 Search root: ${source}`);
 
@@ -45,23 +71,78 @@ export async function extractKeysAndGeneratePotFile(options: ExtractOptions): Pr
     return;
   }
 
+  // Locked messages keep their key when their text changes
+  const lockFile = config.keyLock ? keyLockPath(config.poOutputDirectory) : undefined;
+  const keyLock = lockFile ? readKeyLock(lockFile) : undefined;
+
   // Process each source file with the unified core transformer
-  for (const filePath of sourceFiles) {
-    await processSourceFile(filePath, config);
+  let { skippedCount, failedCount, lockEntries } = await processSourceFiles(sourceFiles, config, tsconfig, {
+    keyLock,
+    rootDir,
+  });
+
+  // A key collision found after the message that lost it was processed: the store now knows
+  // how to resolve it, so a second pass assigns keys independently of the file order
+  if (i18nStore.collisions().some((collision) => collision.stale)) {
+    i18nStore.clear();
+    ({ skippedCount, failedCount, lockEntries } = await processSourceFiles(sourceFiles, config, tsconfig, {
+      quiet: true,
+      keyLock,
+      rootDir,
+    }));
+  }
+  // Readable keys (e.g. `path` keys) can't be derived without changing which message they name
+  const collisions = i18nStore.collisions();
+  const readable = collisions.filter((collision) => collision.readable);
+  if (readable.length > 0) {
+    throw new Error(readable.map(formatKeyCollision).join("\n"));
+  }
+  for (const collision of collisions) {
+    console.warn(`⚠️  ${formatKeyCollision(collision)}`);
+  }
+
+  if (strict && (skippedCount > 0 || failedCount > 0)) {
+    throw new Error(
+      `Strict mode: ${skippedCount} message(s) could not be extracted and ${failedCount} file(s) failed to process`
+    );
   }
 
   // Get collected translations
   const entries = Array.from(i18nStore.all().values()).sort((a: any, b: any) => a.id.localeCompare(b.id));
   console.log(`🔑 Collected ${entries.length} translation keys`);
 
+  for (const entry of entries) {
+    if (entry.conflictingSources) {
+      const sources = [...entry.conflictingSources, entry.source].map((source) => JSON.stringify(source));
+      console.warn(`⚠️  Explicit key "${entry.id}" is used by messages with different sources: ${sources.join(", ")}`);
+    }
+  }
+
   if (entries.length === 0) {
     console.warn("⚠️  No translation keys found in source files");
     return;
   }
 
   // Generate POT file
-  await generatePot(entries, output, projectId);
+  await generatePot(entries, output, projectId, config);
   console.log(`✅ POT file generated: ${output}`);
+
+  if (lockFile && keyLock) {
+    // Messages of files that failed to process would be dropped from the lock
+    if (failedCount > 0) {
+      console.warn(`⚠️  Key lock not updated because ${failedCount} file(s) failed to process`);
+      return;
+    }
+    const { lock, changes } = updateKeyLock(keyLock, lockEntries);
+    for (const change of changes) {
+      console.warn(
+        `⚠️  ${change.identity} changed from ${JSON.stringify(change.previous.source)} to ${JSON.stringify(change.current.source)}; ` +
+          `it keeps key "${change.key}" and sync marks its translations for review`
+      );
+    }
+    writeKeyLock(lockFile, lock);
+    console.log(`🔒 Key lock updated: ${lockFile}`);
+  }
 }
 
 function findSourceFiles(sourceDir: string, include: string[], exclude: string[]): string[] {
@@ -80,24 +161,76 @@ function findSourceFiles(sourceDir: string, include: string[], exclude: string[]
   return [...new Set(files)];
 }
 
+/** The config options `extract` transforms files with. */
+type TransformConfig = {
+  argMode: "indexed" | "named";
+  autoContext?: AutoContext;
+  defaultNamespace?: string;
+  namespaceFromPath?: boolean;
+} & KeyOptions;
+
+async function processSourceFiles(
+  sourceFiles: string[],
+  config: TransformConfig,
+  tsconfig: string | undefined,
+  { quiet = false, keyLock, rootDir }: { quiet?: boolean; keyLock?: KeyLock; rootDir?: string } = {}
+): Promise<{ skippedCount: number; failedCount: number; lockEntries: Record<string, KeyLockEntry> }> {
+  let skippedCount = 0;
+  let failedCount = 0;
+  const lockEntries: Record<string, KeyLockEntry> = {};
+  for (const filePath of sourceFiles) {
+    const result = await processSourceFile(filePath, config, tsconfig, quiet, keyLock, rootDir);
+    if (result === null) {
+      failedCount++;
+    } else {
+      skippedCount += result.skipped.length;
+      Object.assign(lockEntries, result.lockEntries);
+    }
+  }
+  return { skippedCount, failedCount, lockEntries };
+}
+
+/**
+ * Record the messages of one file in the i18nStore and warn about skipped message-like functions.
+ * Returns the transform result, or null when the file could not be processed.
+ */
 async function processSourceFile(
   filePath: string,
-  config: { hashLength: number; argMode: "indexed" | "named" }
-): Promise<void> {
+  config: TransformConfig,
+  tsconfig?: string,
+  quiet = false,
+  keyLock?: KeyLock,
+  rootDir?: string
+): Promise<TransformResult | null> {
   try {
     const sourceCode = fs.readFileSync(filePath, "utf8");
 
     // Use the unified core transformer - same as Rollup/Webpack
-    transformMessages(sourceCode, filePath, {
+    // transformMessages automatically records entries in i18nStore
+    const result = transformMessages(sourceCode, filePath, {
       argMode: config.argMode,
       setDefaultValue: false, // Not needed for extraction
       debug: false, // Not needed for extraction
       hashLength: config.hashLength,
+      keyStrategy: config.keyStrategy,
+      hashNormalization: config.hashNormalization,
+      autoContext: config.autoContext,
+      defaultNamespace: config.defaultNamespace,
+      namespaceFromPath: config.namespaceFromPath,
+      rootDir,
+      tsconfig,
+      keyLock,
     });
 
-    // transformMessages automatically records entries in i18nStore
+    if (!quiet) {
+      for (const diagnostic of result.skipped) {
+        console.warn(`⚠️  ${formatDiagnostic(diagnostic)}`);
+      }
+    }
+    return result;
   } catch (error) {
-    console.error(`❌ Error processing ${filePath}:`, error);
+    if (!quiet) console.error(`❌ Error processing ${filePath}:`, error);
+    return null;
   }
 }
 
@@ -106,12 +239,16 @@ async function generatePot(
     id: string;
     source: string;
     translationContext?: string;
+    explicitKey?: boolean;
+    namespace?: string;
+    richTextTags?: string[];
     refs: Set<string>;
     extractedComments: Set<string>;
     parameterMetadata?: ParameterMetadata;
   }>,
   outputPath: string,
-  projectId: string
+  projectId: string,
+  keyOptions: KeyOptions
 ): Promise<void> {
   const parser = await loadGettextParser();
 
@@ -135,6 +272,13 @@ async function generatePot(
     translations: { "": {} } as GetTextTranslationRecord,
   };
 
+  // Keys of the messages merged into each POT entry, so explicit @key tags (and keys that can't be
+  // recomputed from the text, like path keys or keys derived to resolve a collision) survive the merge
+  const keysByPotEntry = new Map<string, { explicit: Set<string>; hashed: Set<string> }>();
+  // Namespaces of the messages merged into each POT entry (undefined for i18next's default one),
+  // so `convert` can split its output the way the plugins do
+  const namespacesByPotEntry = new Map<string, Set<string | undefined>>();
+
   for (const entry of entries) {
     // Build description comments and parameter comments separately for proper ordering
     const descriptionComments: string[] = [];
@@ -143,7 +287,13 @@ async function generatePot(
     // Add main JSDoc description (cleaned up, excluding @param and @translationContext tags)
     const originalComments = Array.from(entry.extractedComments);
 
-    for (const comment of originalComments) {
+    for (const rawComment of originalComments) {
+      // Directive tags are for the tooling, not for translators
+      const comment = rawComment
+        .replace(/@(namespace|key|argMode)\s+\S+/g, "")
+        .replace(/@(setDefaultValue|noTranslate)(?:[ \t]+(?:true|false)\b)?/g, "")
+        .replace(/@richText\b/g, "")
+        .trim();
       if (comment.includes("@param") || comment.includes("@translationContext")) {
         // Extract just the main description part before @param or @translationContext tags
         let cleanedComment = comment;
@@ -184,21 +334,31 @@ async function generatePot(
 
     // Add parameter metadata for ICU indexed mode context
     if (entry.parameterMetadata && entry.parameterMetadata.parameterNames.length > 0) {
-      const { parameterNames, parameterTypes, parameterJSDoc } = entry.parameterMetadata;
+      const { parameterNames, parameterTypes, parameterJSDoc, parameterDefaults = {} } = entry.parameterMetadata;
 
       // Add formatted parameter information
       parameterNames.forEach((paramName, index) => {
         const paramType = parameterTypes[index] || "unknown";
         const jsDocDescription = parameterJSDoc[paramName];
+        const defaultValue = parameterDefaults[paramName];
+        const signature =
+          defaultValue !== undefined
+            ? `{${index}} ${paramName}: ${paramType} = ${defaultValue}`
+            : `{${index}} ${paramName}: ${paramType}`;
 
         if (jsDocDescription) {
-          parameterComments.push(`{${index}} ${paramName}: ${paramType} - ${jsDocDescription}`);
+          parameterComments.push(`${signature} - ${jsDocDescription}`);
         } else {
-          parameterComments.push(`{${index}} ${paramName}: ${paramType}`);
+          parameterComments.push(signature);
         }
       });
     }
 
+    // Tell translators which tags <Trans> renders as components
+    if (entry.richTextTags && entry.richTextTags.length > 0) {
+      descriptionComments.push(`Rich text: keep the tags ${entry.richTextTags.map((tag) => `<${tag}>`).join(", ")}`);
+    }
+
     // Combine description and parameter comments in correct order: description first, then parameters
     const extractedComments: string[] = [...descriptionComments, ...parameterComments];
 
@@ -225,7 +385,53 @@ async function generatePot(
       catalog.translations[contextKey] = {};
     }
 
+    // The same message may be collected once per namespace; translators only need it once
+    const existing: GetTextTranslation | undefined = catalog.translations[contextKey][entry.source];
+    if (existing?.comments?.reference) {
+      const refs = new Set([...existing.comments.reference.split("\n"), ...entry.refs]);
+      potEntry.comments.reference = Array.from(refs).sort().join("\n");
+    }
+
     catalog.translations[contextKey][entry.source] = potEntry;
+
+    const potKey = `${contextKey}\u0004${entry.source}`;
+    const keys = keysByPotEntry.get(potKey) ?? { explicit: new Set<string>(), hashed: new Set<string>() };
+    // Keys that convert can't recompute from the msgid and msgctxt alone must be listed
+    const isComputable =
+      !entry.explicitKey &&
+      entry.id ===
+        computeKey(
+          keyOptions.keyStrategy,
+          { source: entry.source, translationContext: entry.translationContext, hashLength: keyOptions.hashLength },
+          resolveHashNormalization(keyOptions.hashNormalization)
+        );
+    (isComputable ? keys.hashed : keys.explicit).add(entry.id);
+    keysByPotEntry.set(potKey, keys);
+
+    const namespaces = namespacesByPotEntry.get(potKey) ?? new Set<string | undefined>();
+    namespaces.add(entry.namespace);
+    namespacesByPotEntry.set(potKey, namespaces);
+  }
+
+  for (const [potKey, keys] of keysByPotEntry) {
+    const [contextKey, source] = potKey.split("\u0004");
+    const potEntry: GetTextTranslation = catalog.translations[contextKey][source];
+    // Record the keys that can't be recomputed for `convert`. Once a message has one, every key that
+    // shares its POT entry must be listed, since convert no longer falls back to the hash.
+    const keyComments =
+      keys.explicit.size > 0
+        ? [...Array.from(keys.explicit).sort(), ...Array.from(keys.hashed).sort()].map(formatExplicitKeyComment)
+        : [];
+    // Messages without a namespace only need one when merged with messages that have one
+    const namespaces = Array.from(namespacesByPotEntry.get(potKey)!);
+    const namespaceComments = namespaces.some(Boolean)
+      ? Array.from(new Set(namespaces.map((namespace) => namespace ?? FALLBACK_NAMESPACE)))
+          .sort()
+          .map(formatNamespaceComment)
+      : [];
+    if (keyComments.length === 0 && namespaceComments.length === 0) continue;
+    const extracted = [potEntry.comments?.extracted, ...keyComments, ...namespaceComments].filter(Boolean).join("\n");
+    potEntry.comments = { ...potEntry.comments, extracted };
   }
 
   const potBuffer = parser.po.compile(catalog, { sort: true });
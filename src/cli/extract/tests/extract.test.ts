@@ -2,6 +2,8 @@ import { jest } from "@jest/globals";
 import fs from "fs";
 import { extractKeysAndGeneratePotFile } from "../extract";
 import { i18nStore } from "../../../common/i18nStore";
+import { stableHash } from "../../../common/hash";
+import { loadConfig } from "../../../common/config/loadConfig";
 
 // Mock console to avoid spam during tests
 const mockConsole = {
@@ -215,6 +217,27 @@ describe("extractKeysAndGeneratePotFile", () => {
     });
   });
 
+  it("should default include/exclude patterns to the config", async () => {
+    const { config } = loadConfig();
+    (loadConfig as jest.Mock).mockReturnValueOnce({
+      config: { ...config, include: ["src/**/*.messages.ts"], exclude: ["src/legacy/**"] },
+    });
+
+    await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath });
+
+    expect(mockGlob.sync).toHaveBeenCalledWith("src/**/*.messages.ts", {
+      cwd: testSourceDir,
+      absolute: true,
+      ignore: ["src/legacy/**"],
+    });
+  });
+
+  it("should fail without include patterns in the options or the config", async () => {
+    await expect(extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath })).rejects.toThrow(
+      "No files to scan"
+    );
+  });
+
   it("should handle missing tsconfig gracefully", async () => {
     mockedFs.existsSync.mockImplementation((filePath) => {
       return !filePath.toString().includes("tsconfig.json");
@@ -342,6 +365,39 @@ describe("extractKeysAndGeneratePotFile", () => {
       expect(potContent).toContain("User: {username} ({email})");
     });
 
+    it("should list each destructured field with its type and default value", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation((filePath: any) => {
+        const pathStr = filePath.toString();
+        if (pathStr.includes("destructured.messages.ts")) {
+          return `export const DestructuredMessages = {
+  /**
+   * Cart summary
+   * @param props.count Number of items in the cart
+   */
+  cart: ({ count, user = "guest" }: { count: number; user?: string }): string => "{user} has {count} items",
+};`;
+        }
+        return "export const NoMessages = {};";
+      });
+
+      mockGlob.sync.mockReturnValue(["/test/src/destructured.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({
+        source: testSourceDir,
+        output: testOutputPath,
+        include: ["**/*.messages.ts"],
+        projectId: "test-destructured 1.0",
+      });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      const potContent = potBuffer.toString();
+
+      expect(potContent).toContain("{0} count: number - Number of items in the cart");
+      expect(potContent).toContain('{1} user: string = "guest"');
+    });
+
     it("should handle mixed JSDoc availability (some parameters documented, some not)", async () => {
       // Mock file with partial JSDoc
       (mockedFs.readFileSync as jest.Mock).mockImplementation((filePath: any) => {
@@ -1317,4 +1373,329 @@ describe("extractKeysAndGeneratePotFile", () => {
       });
     });
   });
+  describe("explicit keys (@key)", () => {
+    function extractPot() {
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      return potBuffer.toString();
+    }
+
+    it("records the explicit key as an extracted comment instead of a translator note", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(
+        () => `export const Messages = {
+  /**
+   * Title of the login page
+   * @key legacy.login.title
+   */
+  title: (): string => "Log In",
+};`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/login.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potContent = extractPot();
+      expect(potContent).toContain('#. Title of the login page\n#. @key legacy.login.title\nmsgid "Log In"');
+    });
+
+    it("lists every key when an explicit key shares its POT entry with a hashed message", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(
+        () => `export const Messages = {
+  /** @key legacy.login.title */
+  title: (): string => "Log In",
+  button: (): string => "Log In",
+};`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/login.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const hash = stableHash("Log In", { hashLength: 10 });
+      expect(extractPot()).toContain(`#. @key legacy.login.title\n#. @key ${hash}\n`);
+    });
+
+    it("warns when two messages claim the same explicit key with different sources", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(
+        () => `export const Messages = {
+  /** @key shared.title */
+  a: (): string => "Log In",
+  /** @key shared.title */
+  b: (): string => "Sign In",
+};`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/login.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      expect(mockConsole.warn).toHaveBeenCalledWith(
+        '⚠️  Explicit key "shared.title" is used by messages with different sources: "Log In", "Sign In"'
+      );
+    });
+  });
+
+  describe("namespaces (@namespace)", () => {
+    it("records the namespaces of the messages merged into an entry", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation((filePath: any) =>
+        filePath.toString().includes("checkout")
+          ? `/** @namespace checkout */
+export const CheckoutMessages = {
+  save: (): string => "Save",
+  pay: (): string => "Pay",
+};`
+          : `export const Messages = { save: (): string => "Save" };`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/checkout.messages.ts", "/test/src/app.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      const potContent = potBuffer.toString();
+      expect(potContent).toContain('#. @namespace checkout\nmsgid "Pay"');
+      // The untagged message goes to i18next's default namespace
+      expect(potContent).toContain('#. @namespace checkout\n#. @namespace translation\nmsgid "Save"');
+    });
+
+    it("doesn't record a namespace for messages without one", async () => {
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      expect(potBuffer.toString()).not.toContain("@namespace");
+    });
+  });
+
+  describe("keyStrategy", () => {
+    it("records path keys so convert can write them back", async () => {
+      const { config } = loadConfig();
+      (loadConfig as jest.Mock).mockReturnValueOnce({ config: { ...config, keyStrategy: "path" } });
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(
+        () => `export const LoginMessages = {
+  save: (): string => "Save",
+  dialog: { save: (): string => "Save" },
+};`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/login.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      expect(potBuffer.toString()).toContain(
+        '#. @key LoginMessages.dialog.save\n#. @key LoginMessages.save\nmsgid "Save"'
+      );
+    });
+  });
+
+  describe("autoContext", () => {
+    it("writes the derived context as msgctxt", async () => {
+      const { config } = loadConfig();
+      (loadConfig as jest.Mock).mockReturnValueOnce({ config: { ...config, autoContext: "object" } });
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(
+        () => `export const DialogMessages = {
+  close: (): string => "Close",
+};`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/dialog.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      expect(potBuffer.toString()).toContain('msgctxt "DialogMessages"\nmsgid "Close"');
+    });
+  });
+
+  describe("file- and object-level directives", () => {
+    it("writes an inherited context and keeps directives out of translator comments", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(
+        () => `/**
+ * @translationContext dialog
+ * @argMode indexed
+ */
+export const DialogMessages = {
+  /**
+   * Closes the dialog
+   * @setDefaultValue false
+   */
+  close: (): string => "Close",
+};`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/dialog.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      expect(potBuffer.toString()).toContain('#. Closes the dialog\nmsgctxt "dialog"\nmsgid "Close"');
+    });
+  });
+
+  describe("key lock", () => {
+    const lockFile = "/test/i18n/keys.lock.json";
+
+    function useLock(lock: object) {
+      const { config } = loadConfig();
+      (loadConfig as jest.Mock).mockReturnValueOnce({
+        config: { ...config, keyLock: true, poOutputDirectory: "/test/i18n" },
+      });
+      (mockedFs.readFileSync as jest.Mock).mockImplementation((file: unknown) =>
+        file === lockFile
+          ? JSON.stringify(lock)
+          : `export const Messages = {
+  title: (): string => "Receive",
+  added: (): string => "Added",
+};`
+      );
+      mockGlob.sync.mockReturnValue(["test/src/inbox.messages.ts"]);
+    }
+
+    function writtenLock() {
+      const content = (mockedFs.writeFileSync as jest.Mock).mock.calls.find((call) => call[0] === lockFile)?.[1];
+      return JSON.parse(content as string);
+    }
+
+    it("keeps the key of a locked message whose text changed and updates the lock", async () => {
+      useLock({
+        version: 1,
+        messages: {
+          "test/src/inbox.messages.ts#Messages.title": { key: "abcdef1234", source: "Recieve" },
+          "test/src/inbox.messages.ts#Messages.removed": { key: "0123456789", source: "Removed" },
+        },
+      });
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      expect(potBuffer.toString()).toContain('#. @key abcdef1234\nmsgid "Receive"');
+      expect(writtenLock().messages).toEqual({
+        "test/src/inbox.messages.ts#Messages.added": { key: stableHash("Added", { hashLength: 10 }), source: "Added" },
+        "test/src/inbox.messages.ts#Messages.title": { key: "abcdef1234", source: "Receive" },
+      });
+      expect(mockConsole.warn).toHaveBeenCalledWith(
+        '⚠️  test/src/inbox.messages.ts#Messages.title changed from "Recieve" to "Receive"; it keeps key "abcdef1234" and sync marks its translations for review'
+      );
+    });
+
+    it("doesn't update the lock when a file failed to process", async () => {
+      useLock({ version: 1, messages: {} });
+      mockGlob.sync.mockReturnValue(["test/src/inbox.messages.ts", "test/src/missing.messages.ts"]);
+      const readLockOrSource = (mockedFs.readFileSync as jest.Mock).getMockImplementation()!;
+      (mockedFs.readFileSync as jest.Mock).mockImplementation((file: unknown) => {
+        if (file === "test/src/missing.messages.ts") throw new Error("File read error");
+        return readLockOrSource(file);
+      });
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalledWith(lockFile, expect.anything(), "utf8");
+      expect(mockConsole.warn).toHaveBeenCalledWith("⚠️  Key lock not updated because 1 file(s) failed to process");
+    });
+  });
+
+  describe("skipped messages and --strict", () => {
+    const skippedSource = `export const Messages = {
+  ok: (): string => "Fine",
+  status: (online: boolean): string => online ? "Online" : "Offline",
+};`;
+
+    it("warns about message-like functions that could not be extracted", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(() => skippedSource);
+      mockGlob.sync.mockReturnValue(["/test/src/status.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      expect(mockConsole.warn).toHaveBeenCalledWith(
+        expect.stringMatching(/^⚠️ {2}.*status\.messages\.ts:3:\d+ - Message "status" is not translated/)
+      );
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(testOutputPath, expect.any(Buffer));
+    });
+
+    it("fails without writing the POT file in strict mode", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(() => skippedSource);
+      mockGlob.sync.mockReturnValue(["/test/src/status.messages.ts"]);
+
+      await expect(
+        extractKeysAndGeneratePotFile({
+          source: testSourceDir,
+          output: testOutputPath,
+          include: ["**/*.ts"],
+          strict: true,
+        })
+      ).rejects.toThrow("Strict mode: 1 message(s) could not be extracted and 0 file(s) failed to process");
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it("fails in strict mode when a file can't be processed", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(() => {
+        throw new Error("File read error");
+      });
+      mockGlob.sync.mockReturnValue(["/test/src/status.messages.ts"]);
+
+      await expect(
+        extractKeysAndGeneratePotFile({
+          source: testSourceDir,
+          output: testOutputPath,
+          include: ["**/*.ts"],
+          strict: true,
+        })
+      ).rejects.toThrow("0 message(s) could not be extracted and 1 file(s) failed to process");
+    });
+  });
+
+  describe("key collisions", () => {
+    it("resolves collisions the same way whichever file is processed first", async () => {
+      // Both messages hash to "f54ead0442"; the file that sorts later is processed first
+      const files: Record<string, string> = {
+        "/test/src/a.messages.ts": `export const A = { a: (): string => "Message 1790599" };`,
+        "/test/src/b.messages.ts": `export const B = { b: (): string => "Message 1080860" };`,
+      };
+      (mockedFs.readFileSync as jest.Mock).mockImplementation((file: unknown) => files[file as string]);
+      mockGlob.sync.mockReturnValue(Object.keys(files));
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      const derived = stableHash("Message 1790599:f54ead0442", { hashLength: 12 });
+      expect(potBuffer.toString()).toContain(`#. @key ${derived}\nmsgid "Message 1790599"`);
+      expect(potBuffer.toString()).not.toContain("@key f54ead0442");
+      expect(mockConsole.warn).toHaveBeenCalledWith(
+        expect.stringContaining('⚠️  Key "f54ead0442" is generated by different messages: "Message 1080860"')
+      );
+    });
+  });
+
+  describe("rich text (@richText)", () => {
+    it("lists the tags translators must keep", async () => {
+      (mockedFs.readFileSync as jest.Mock).mockImplementation(
+        () => `export const Messages = {
+  /**
+   * Terms notice on the signup form
+   * @richText
+   */
+  terms: (): string => "Read the <link>terms</link><br/>",
+};`
+      );
+      mockGlob.sync.mockReturnValue(["/test/src/signup.messages.ts"]);
+
+      await extractKeysAndGeneratePotFile({ source: testSourceDir, output: testOutputPath, include: ["**/*.ts"] });
+
+      const potBuffer = (mockedFs.writeFileSync as jest.Mock).mock.calls.find(
+        (call) => call[0] === testOutputPath
+      )?.[1] as Buffer;
+      expect(potBuffer.toString()).toContain(
+        '#. Terms notice on the signup form\n#. Rich text: keep the tags <link>, <br>\nmsgid "Read the <link>terms</link><br/>"'
+      );
+    });
+  });
 });
@@ -0,0 +1,102 @@
+import fs from "fs";
+import { loadGettextParser } from "../loadGettextParser";
+import { parseExplicitKeyComments } from "../utils/explicitKeys";
+import { loadConfig } from "@/index";
+import { computeKey } from "../../common/keyStrategy";
+import { resolveHashNormalization, FULL_HASH_NORMALIZATION } from "../../common/hash";
+import type { HashNormalization } from "../../common/hash";
+
+export type KeyMigrationOptions = {
+  template: string;
+  /** Normalization to compare the configured keys with. Defaults to what `hashNormalization: true` enables. */
+  normalization?: HashNormalization;
+};
+
+export type KeyMigration = {
+  source: string;
+  translationContext?: string;
+  /** Key with the configured `hashNormalization` */
+  from: string;
+  /** Key with the compared normalization */
+  to: string;
+};
+
+/**
+ * Lists the keys of a PO template's messages that would change if `hashNormalization` were set to
+ * the given normalization, and the messages that would end up sharing a key.
+ */
+export async function showKeyMigration(options: KeyMigrationOptions): Promise<KeyMigration[]> {
+  const { template, normalization = resolveHashNormalization(true) } = options;
+  const { config } = loadConfig();
+  const current = resolveHashNormalization(config.hashNormalization);
+
+  const kinds = Object.keys(normalization).filter((kind) => normalization[kind as keyof HashNormalization]);
+  console.log(`🔍 Comparing keys in ${template} with hashNormalization: ${kinds.join(", ") || "none"}`);
+
+  if (!fs.existsSync(template)) {
+    throw new Error(`Template file not found: ${template}`);
+  }
+
+  const parser = await loadGettextParser();
+  const catalog = parser.po.parse(fs.readFileSync(template));
+
+  const migrations: KeyMigration[] = [];
+  const sourcesByKey = new Map<string, string[]>();
+  let total = 0;
+  let listed = 0;
+
+  for (const contextEntries of Object.values(catalog.translations)) {
+    for (const [msgid, entryData] of Object.entries(contextEntries as any)) {
+      if (msgid === "" || !entryData) continue; // Skip header entry
+
+      // Keys listed with @key are written verbatim by convert, whatever the normalization
+      if (parseExplicitKeyComments((entryData as any).comments?.extracted).length > 0) {
+        listed++;
+        continue;
+      }
+
+      total++;
+      const translationContext: string | undefined = (entryData as any).msgctxt || undefined;
+      const input = { source: msgid, translationContext, hashLength: config.hashLength };
+      const from = computeKey(config.keyStrategy, input, current);
+      const to = computeKey(config.keyStrategy, input, normalization);
+      if (from !== to) {
+        migrations.push({ source: msgid, translationContext, from, to });
+      }
+      sourcesByKey.set(to, [...(sourcesByKey.get(to) ?? []), msgid]);
+    }
+  }
+
+  migrations.sort((a, b) => a.from.localeCompare(b.from));
+  for (const migration of migrations) {
+    const context = migration.translationContext ? ` [${migration.translationContext}]` : "";
+    console.log(`🔑 ${migration.from} → ${migration.to}  ${JSON.stringify(migration.source)}${context}`);
+  }
+
+  // Messages that only differ by normalized-away edits become one message
+  for (const [key, sources] of sourcesByKey) {
+    if (sources.length > 1) {
+      console.warn(`⚠️  ${sources.map((source) => JSON.stringify(source)).join(", ")} would share key "${key}"`);
+    }
+  }
+
+  if (listed > 0) {
+    console.log(`📌 ${listed} message(s) with keys listed in the template (@key) keep them`);
+  }
+  console.log(`✅ ${migrations.length} of ${total} key(s) would change`);
+  return migrations;
+}
+
+/** Parse the `--normalization` kinds of the CLI. */
+export function parseNormalizationKinds(kinds: string[]): HashNormalization {
+  const normalization: HashNormalization = {};
+  for (const kind of kinds) {
+    if (!(kind in FULL_HASH_NORMALIZATION)) {
+      throw new Error(
+        `Unknown normalization "${kind}". Expected one of: ${Object.keys(FULL_HASH_NORMALIZATION).join(", ")}`
+      );
+    }
+    normalization[kind as keyof HashNormalization] = true;
+  }
+  return normalization;
+}
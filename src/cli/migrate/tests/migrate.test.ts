@@ -0,0 +1,154 @@
+import { jest } from "@jest/globals";
+import fs from "fs";
+import { showKeyMigration, parseNormalizationKinds } from "../migrate";
+import { stableHash } from "../../../common/hash";
+import { transformMessages } from "../../../common/transformer/transformer";
+import { I18nStore } from "../../../common/i18nStore";
+import { loadConfig } from "../../../common/config/loadConfig";
+
+// loadGettextParser and loadConfig are automatically mocked by Jest setup
+
+// Mock console to avoid spam during tests
+const mockConsole = {
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const originalConsole = {
+  log: console.log,
+  warn: console.warn,
+  error: console.error,
+};
+
+jest.mock("fs");
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+const templateContent = `msgid ""
+msgstr ""
+
+#: src/a.messages.ts:2:3
+msgid "Hello,   {name}"
+msgstr ""
+
+#: src/a.messages.ts:3:3
+msgid "Hello, {name}"
+msgstr ""
+
+#: src/a.messages.ts:4:3
+msgctxt "button"
+msgid "It''s  done"
+msgstr ""
+
+#: src/a.messages.ts:5:3
+#. @key legacy.title
+msgid "Title  here"
+msgstr ""
+
+#: src/a.messages.ts:6:3
+msgid "Unchanged"
+msgstr ""
+`;
+
+describe("showKeyMigration", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    console.log = mockConsole.log;
+    console.warn = mockConsole.warn;
+    console.error = mockConsole.error;
+
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue(Buffer.from(templateContent));
+  });
+
+  afterEach(() => {
+    console.log = originalConsole.log;
+    console.warn = originalConsole.warn;
+    console.error = originalConsole.error;
+  });
+
+  it("lists the keys that change with the normalization of hashNormalization: true", async () => {
+    const migrations = await showKeyMigration({ template: "/test/messages.pot" });
+
+    const normalized = stableHash("Hello,{name}", { hashLength: 10 });
+    expect(migrations).toEqual(
+      [
+        { source: "Hello,   {name}", from: stableHash("Hello,   {name}", { hashLength: 10 }), to: normalized },
+        { source: "Hello, {name}", from: stableHash("Hello, {name}", { hashLength: 10 }), to: normalized },
+        {
+          source: "It''s  done",
+          translationContext: "button",
+          from: stableHash("It''s  done", { context: "button", hashLength: 10 }),
+          to: stableHash("It''s done", { context: "button", hashLength: 10 }),
+        },
+      ].sort((a, b) => a.from.localeCompare(b.from))
+    );
+    expect(mockConsole.warn).toHaveBeenCalledWith(
+      `⚠️  "Hello,   {name}", "Hello, {name}" would share key "${normalized}"`
+    );
+    expect(mockConsole.log).toHaveBeenCalledWith("📌 1 message(s) with keys listed in the template (@key) keep them");
+    expect(mockConsole.log).toHaveBeenCalledWith("✅ 3 of 4 key(s) would change");
+  });
+
+  it("previews the keys the transformer produces with hashNormalization: true", async () => {
+    const { messages } = transformMessages(
+      `export const Messages = {
+  spaced: (name: string): string => "Hello,   {name}",
+  greeting: (name: string): string => "Hello, {name}",
+  /** @translationContext button */
+  done: (): string => "It''s  done",
+};`,
+      "src/a.messages.ts",
+      {
+        argMode: "named",
+        setDefaultValue: false,
+        debug: false,
+        hashLength: 10,
+        hashNormalization: true,
+        store: new I18nStore(),
+      }
+    );
+
+    const migrations = await showKeyMigration({ template: "/test/messages.pot" });
+
+    expect(migrations.map(({ source, to }) => ({ source, to }))).toEqual(
+      expect.arrayContaining(messages.map(({ source, id }) => ({ source, to: id })))
+    );
+    expect(migrations).toHaveLength(messages.length);
+  });
+
+  it("compares with the requested kinds of normalization", async () => {
+    const migrations = await showKeyMigration({ template: "/test/messages.pot", normalization: { quotes: true } });
+
+    expect(migrations.map((migration) => migration.source)).toEqual(["It''s  done"]);
+  });
+
+  it("compares with the normalization already configured", async () => {
+    const { config } = loadConfig();
+    (loadConfig as jest.Mock).mockReturnValueOnce({ config: { ...config, hashNormalization: { whitespace: true } } });
+
+    const migrations = await showKeyMigration({ template: "/test/messages.pot", normalization: { whitespace: true } });
+
+    expect(migrations).toEqual([]);
+  });
+
+  it("throws if the template doesn't exist", async () => {
+    mockedFs.existsSync.mockReturnValue(false);
+
+    await expect(showKeyMigration({ template: "/test/missing.pot" })).rejects.toThrow(
+      "Template file not found: /test/missing.pot"
+    );
+  });
+});
+
+describe("parseNormalizationKinds", () => {
+  it("enables the listed kinds", () => {
+    expect(parseNormalizationKinds(["whitespace", "quotes"])).toEqual({ whitespace: true, quotes: true });
+  });
+
+  it("rejects unknown kinds", () => {
+    expect(() => parseNormalizationKinds(["case"])).toThrow(
+      'Unknown normalization "case". Expected one of: whitespace, icuPunctuation, quotes'
+    );
+  });
+});
@@ -2,6 +2,10 @@ import fs from "fs";
 import { sync as globSync } from "glob";
 import { normalizeGlobPattern } from "../utils/glob";
 import { loadGettextParser } from "../loadGettextParser";
+import { resolvePoEntryKeys } from "../utils/explicitKeys";
+import { loadConfig } from "@/index";
+import { keyLockPath, readKeyLock, lockedKeysBySource } from "../../common/keyLock";
+import type { KeyOptions } from "../../common/keyStrategy";
 
 export type SyncPoOptions = {
   template: string;
@@ -39,10 +43,16 @@ export async function syncPoFiles(options: SyncPoOptions): Promise<void> {
     return;
   }
 
+  // Keys of the entries, to recognize messages whose text changed but whose key didn't
+  const { config } = loadConfig();
+  const lockedKeys = config.keyLock
+    ? lockedKeysBySource(readKeyLock(keyLockPath(config.poOutputDirectory)))
+    : undefined;
+
   // Sync each .po file
   for (const poFile of uniquePoFiles) {
     try {
-      await msgmergeJs(poFile, template, poFile, backup);
+      await msgmergeJs(poFile, template, poFile, config, lockedKeys, backup);
     } catch (error) {
       console.error(`❌ Error syncing ${poFile}:`, error);
     }
@@ -55,7 +65,14 @@ export async function syncPoFiles(options: SyncPoOptions): Promise<void> {
  * Merge an existing .po with an updated .pot template.
  * Keeps existing translations, adds new msgids.
  */
-async function msgmergeJs(oldPoPath: string, newPotPath: string, outPath: string, backup: boolean = false) {
+async function msgmergeJs(
+  oldPoPath: string,
+  newPotPath: string,
+  outPath: string,
+  keyOptions: KeyOptions,
+  lockedKeys: ReadonlyMap<string, string[]> | undefined,
+  backup: boolean = false
+) {
   const gettextParser = await loadGettextParser();
 
   // Create backup if requested
@@ -69,6 +86,8 @@ async function msgmergeJs(oldPoPath: string, newPotPath: string, outPath: string
   const newPot = gettextParser.po.parse(fs.readFileSync(newPotPath));
 
   const merged = newPot;
+  const matched = new Set<any>();
+  const obsolete: any[] = [];
 
   // Copy translations over when msgid+msgctxt match
   for (const [ctx, ctxEntries] of Object.entries(oldPo.translations)) {
@@ -83,14 +102,50 @@ async function msgmergeJs(oldPoPath: string, newPotPath: string, outPath: string
         if (oldEntryTyped.comments) {
           newEntry.comments = { ...oldEntryTyped.comments, ...newEntry.comments };
         }
+        matched.add(newEntry);
       } else {
-        // msgid removed from template — skip obsolete entries (don't add to merged file)
-        console.log(`🗑️  Removing obsolete translation: ${oldEntryTyped.msgctxt || msgid}`);
+        obsolete.push(oldEntryTyped);
       }
     }
     merged.translations[ctx] = mergedCtx;
   }
 
+  // A message whose text changed but kept its key (a @key tag or the key lock) keeps its
+  // translation, marked fuzzy with the previous text so translators review it
+  const obsoleteByKey = new Map<string, any>();
+  for (const oldEntry of obsolete) {
+    if (!oldEntry.msgstr?.[0]) continue;
+    for (const key of resolvePoEntryKeys(oldEntry, keyOptions, lockedKeys)) {
+      obsoleteByKey.set(key, oldEntry);
+    }
+  }
+  const carriedOver = new Set<any>();
+  for (const ctxEntries of Object.values(merged.translations)) {
+    for (const [msgid, newEntry] of Object.entries(ctxEntries as any)) {
+      const newEntryTyped = newEntry as any;
+      if (!msgid || matched.has(newEntryTyped) || obsoleteByKey.size === 0) continue;
+      const oldEntry = resolvePoEntryKeys(newEntryTyped, keyOptions, lockedKeys)
+        .map((key) => obsoleteByKey.get(key))
+        .find(Boolean);
+      if (!oldEntry) continue;
+      newEntryTyped.msgstr = oldEntry.msgstr;
+      newEntryTyped.comments = {
+        ...oldEntry.comments,
+        ...newEntryTyped.comments,
+        flag: "fuzzy",
+        previous: formatPreviousMessage(oldEntry),
+      };
+      carriedOver.add(oldEntry);
+      console.log(`🔁 Marking changed message for review: ${msgid}`);
+    }
+  }
+
+  for (const oldEntry of obsolete) {
+    if (carriedOver.has(oldEntry)) continue;
+    // msgid removed from template — skip obsolete entries (don't add to merged file)
+    console.log(`🗑️  Removing obsolete translation: ${oldEntry.msgctxt || oldEntry.msgid}`);
+  }
+
   // Update headers from the old file (preserve language info, etc.)
   merged.headers = { ...merged.headers, ...oldPo.headers };
   merged.headers["po-revision-date"] = new Date().toISOString();
@@ -99,3 +154,9 @@ async function msgmergeJs(oldPoPath: string, newPotPath: string, outPath: string
   fs.writeFileSync(outPath, outBuf);
   console.log(`🔄 Merged ${oldPoPath} + ${newPotPath} → ${outPath}`);
 }
+
+/** The "#|" previous-message comment of a fuzzy entry, in PO syntax. */
+function formatPreviousMessage(entry: { msgid: string; msgctxt?: string }): string {
+  const msgid = `msgid ${JSON.stringify(entry.msgid)}`;
+  return entry.msgctxt ? `msgctxt ${JSON.stringify(entry.msgctxt)}\n${msgid}` : msgid;
+}
@@ -1,6 +1,7 @@
 import { jest } from "@jest/globals";
 import fs from "fs";
 import { syncPoFiles } from "../sync";
+import { stableHash } from "../../../common/hash";
 
 // Mock console to avoid spam during tests
 const mockConsole = {
@@ -302,4 +303,37 @@ describe("syncPoFiles", () => {
       mockedFs.readFileSync = originalReadFileImpl;
     }
   });
+
+  it("keeps the translation of a message whose text changed but kept its key, marked fuzzy", async () => {
+    // The key lock kept the key of "Recieve" after it was fixed to "Receive", so the template lists it
+    const key = stableHash("Recieve", { hashLength: 10 });
+    mockGlob.sync.mockReturnValue(["/test/locales/es.po"]);
+    const catalog = (entries: Record<string, any>) => ({
+      charset: "utf-8",
+      headers: {},
+      translations: { "": entries },
+    });
+    (mockGettextParser.po.parse as jest.Mock)
+      .mockImplementationOnce(() =>
+        catalog({ Recieve: { msgid: "Recieve", msgstr: ["Recibir"], comments: { translator: "checked" } } })
+      )
+      .mockImplementationOnce(() =>
+        catalog({ Receive: { msgid: "Receive", msgstr: [""], comments: { extracted: `@key ${key}` } } })
+      );
+
+    await syncPoFiles({
+      template: testTemplate,
+      poFiles: testPoFiles,
+    });
+
+    const merged = (mockGettextParser.po.compile as jest.Mock).mock.calls[0][0] as any;
+    expect(merged.translations[""]).toEqual({
+      Receive: {
+        msgid: "Receive",
+        msgstr: ["Recibir"],
+        comments: { translator: "checked", extracted: `@key ${key}`, flag: "fuzzy", previous: 'msgid "Recieve"' },
+      },
+    });
+    expect(mockConsole.log).not.toHaveBeenCalledWith(expect.stringContaining("Removing obsolete translation"));
+  });
 });
@@ -0,0 +1,60 @@
+import { computeKey } from "../../common/keyStrategy";
+import type { KeyOptions } from "../../common/keyStrategy";
+import { resolveHashNormalization } from "../../common/hash";
+import { lockSourceId } from "../../common/keyLock";
+
+/**
+ * Explicit `@key` tags are carried from the POT template to the PO files as extracted
+ * comments (`#. @key legacy.login.title`), so `convert` can use them instead of the hash.
+ */
+const EXPLICIT_KEY_PATTERN = /^@key\s+(\S+)$/;
+
+/**
+ * Formats an explicit key as an extracted comment line.
+ *
+ * @example
+ * formatExplicitKeyComment("legacy.login.title") // "@key legacy.login.title"
+ */
+export function formatExplicitKeyComment(key: string): string {
+  return `@key ${key}`;
+}
+
+/**
+ * Reads the explicit keys from a PO entry's extracted comments.
+ *
+ * @param extracted - Extracted comments ("#." lines) joined with newlines
+ * @returns The explicit keys, or an empty array when the entry uses a generated hash
+ */
+export function parseExplicitKeyComments(extracted: string | undefined): string[] {
+  if (!extracted) return [];
+  const keys: string[] = [];
+  for (const line of extracted.split("\n")) {
+    const match = line.trim().match(EXPLICIT_KEY_PATTERN);
+    if (match) keys.push(match[1]);
+  }
+  return keys;
+}
+
+/**
+ * Keys a PO entry is written under: its `@key` comments, the keys locked for its text, or the key
+ * computed from msgid and msgctxt with the configured key strategy.
+ */
+export function resolvePoEntryKeys(
+  entry: { msgid: string; msgctxt?: string; comments?: { extracted?: string } },
+  keyOptions: KeyOptions,
+  lockedKeys?: ReadonlyMap<string, string[]>
+): string[] {
+  const explicitKeys = parseExplicitKeyComments(entry.comments?.extracted);
+  if (explicitKeys.length > 0) return explicitKeys;
+
+  const locked = lockedKeys?.get(lockSourceId(entry.msgid, entry.msgctxt));
+  if (locked) return locked;
+
+  return [
+    computeKey(
+      keyOptions.keyStrategy,
+      { source: entry.msgid, translationContext: entry.msgctxt, hashLength: keyOptions.hashLength },
+      resolveHashNormalization(keyOptions.hashNormalization)
+    ),
+  ];
+}
@@ -1,3 +1,5 @@
+import path from "path";
+
 /**
  * Normalizes a glob pattern to use forward slashes for cross-platform compatibility.
  *
@@ -20,3 +22,14 @@ export function normalizeGlobPattern(pattern: string): string {
   // This works on all platforms and ensures consistent behavior in tests
   return pattern.replace(/\\/g, "/");
 }
+
+/**
+ * Glob pattern for the PO files of the configured locales (e.g. "i18n/{de,fr}.po"), or every PO
+ * file in the directory when no locales are configured.
+ */
+export function localePoPattern(poOutputDirectory: string, locales?: string[]): string {
+  if (!locales || locales.length === 0) return path.join(poOutputDirectory, "*.po");
+  // A brace pattern with a single alternative isn't expanded
+  const names = locales.length === 1 ? locales[0] : `{${locales.join(",")}}`;
+  return path.join(poOutputDirectory, `${names}.po`);
+}
@@ -0,0 +1,31 @@
+/**
+ * Namespaces are carried from the POT template to the PO files as extracted comments
+ * (`#. @namespace checkout`), so `convert` can write each translation to its namespace's JSON.
+ */
+const NAMESPACE_PATTERN = /^@namespace\s+(\S+)$/;
+
+/**
+ * Formats a namespace as an extracted comment line.
+ *
+ * @example
+ * formatNamespaceComment("checkout") // "@namespace checkout"
+ */
+export function formatNamespaceComment(namespace: string): string {
+  return `@namespace ${namespace}`;
+}
+
+/**
+ * Reads the namespaces from a PO entry's extracted comments.
+ *
+ * @param extracted - Extracted comments ("#." lines) joined with newlines
+ * @returns The namespaces, or an empty array when the entry's messages don't declare one
+ */
+export function parseNamespaceComments(extracted: string | undefined): string[] {
+  if (!extracted) return [];
+  const namespaces: string[] = [];
+  for (const line of extracted.split("\n")) {
+    const match = line.trim().match(NAMESPACE_PATTERN);
+    if (match) namespaces.push(match[1]);
+  }
+  return namespaces;
+}
@@ -6,6 +6,7 @@ import type { I18nConfig } from "../loadConfig";
 export type Configuration = {
   config: I18nConfig;
   file?: string;
+  rootDir: string;
 };
 
 export const loadConfig = jest.fn(
@@ -17,8 +18,10 @@ export const loadConfig = jest.fn(
       argMode: "named",
       projectId: "app 1.0",
       jsonIndentSpaces: 2,
+      sourceLocale: "en",
     },
     // No file specified in mock
     file: undefined,
+    rootDir: process.cwd(),
   })
 );
@@ -3,6 +3,7 @@ import path from "path";
 import fs from "fs";
 import { cosmiconfigSync } from "cosmiconfig";
 import { z } from "zod";
+import type { KeyFunction } from "../keyStrategy";
 
 /**
  * Finds the nearest package.json file by walking up the directory tree.
@@ -73,7 +74,18 @@ function getDefaultProjectId(cwd: string): string {
   return "app 1.0";
 }
 
+const RuntimeImportSchema = z.object({
+  from: z.string().min(1),
+  name: z.string().regex(/^[A-Za-z_$][\w$]*$/, "must be a valid identifier"),
+  kind: z.enum(["default", "named"]).default("default"),
+});
+
 const I18nSchema = z.object({
+  include: z.array(z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).optional(),
+  jsonOutputPath: z.string().min(1).optional(),
+  sourceLocale: z.string().min(1).default("en"),
+  locales: z.array(z.string().min(1)).optional(),
   poTemplateName: z.string().default("messages.pot"),
   poOutputDirectory: z.string().default("i18n"),
   hashLength: z.number().int().min(10).default(10),
@@ -81,6 +93,31 @@ const I18nSchema = z.object({
   topLevelKey: z.string().optional(),
   projectId: z.string().optional(),
   jsonIndentSpaces: z.number().int().min(0).default(2),
+  runtimeImport: RuntimeImportSchema.optional(),
+  defaultNamespace: z.string().min(1).optional(),
+  namespaceFromPath: z.boolean().optional(),
+  autoContext: z.enum(["none", "file", "object", "file+object"]).optional(),
+  icuMode: z.enum(["icu", "native"]).optional(),
+  icuValidation: z.enum(["off", "warn", "error"]).optional(),
+  keyStrategy: z
+    .union([
+      z.enum(["sha1", "sha256", "fast", "path"]),
+      z.custom<KeyFunction>((value) => typeof value === "function", "must be a key strategy name or a function"),
+    ])
+    .optional(),
+  keyLock: z.boolean().optional(),
+  hashNormalization: z
+    .union([
+      z.boolean(),
+      z
+        .object({
+          whitespace: z.boolean().optional(),
+          icuPunctuation: z.boolean().optional(),
+          quotes: z.boolean().optional(),
+        })
+        .strict(),
+    ])
+    .optional(),
 });
 
 export type I18nConfig = z.infer<typeof I18nSchema> & {
@@ -88,21 +125,31 @@ export type I18nConfig = z.infer<typeof I18nSchema> & {
   projectId: string;
 };
 
-export type Configuration = { config: I18nConfig; file?: string };
+export type Configuration = {
+  config: I18nConfig;
+  file?: string;
+  /**
+   * Directory of the config file, or the search directory without one. File paths in derived
+   * contexts, PO references and the key lock are relative to it, whichever tool runs.
+   */
+  rootDir: string;
+};
 
 export function loadConfig(cwd = process.cwd()): Configuration {
   const search = cosmiconfigSync("i18next-auto-keys").search(cwd);
   const raw = search?.config ?? {};
   const parsed = I18nSchema.parse(raw);
 
-  // Make paths relative to repo root
-  const normalize = (p: string) => path.resolve(cwd, p);
+  // Resolve paths against the config file's directory, whichever directory the tool runs in
+  const rootDir = search ? path.dirname(search.filepath) : cwd;
+  const normalize = (p: string) => path.resolve(rootDir, p);
 
   // Apply dynamic default for projectId if not explicitly configured
   const projectId = parsed.projectId ?? getDefaultProjectId(cwd);
 
   return {
     file: search?.filepath,
+    rootDir,
     config: {
       ...parsed,
       projectId,
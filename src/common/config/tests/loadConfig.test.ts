@@ -50,6 +50,7 @@ describe("loadConfig", () => {
 
     expect(result).toEqual({
       file: undefined,
+      rootDir: "/test/project",
       config: {
         poTemplateName: "messages.pot",
         poOutputDirectory: path.resolve("/test/project", "i18n"),
@@ -58,6 +59,7 @@ describe("loadConfig", () => {
         topLevelKey: undefined,
         projectId: "app 1.0",
         jsonIndentSpaces: 2,
+        sourceLocale: "en",
       },
     });
   });
@@ -83,6 +85,7 @@ describe("loadConfig", () => {
 
     expect(result).toEqual({
       file: configPath,
+      rootDir: "/test/project",
       config: {
         poTemplateName: "template.pot",
         poOutputDirectory: path.resolve("/test/project", "locales"),
@@ -91,10 +94,28 @@ describe("loadConfig", () => {
         topLevelKey: "messages",
         projectId: "my-app v2.0",
         jsonIndentSpaces: 4,
+        sourceLocale: "en",
       },
     });
   });
 
+  test("should use the directory of a config file found above the search directory as root", () => {
+    mockSearch.mockReturnValue({ filepath: "/test/project/i18next-auto-keys.config.js", config: {} });
+
+    expect(loadConfig("/test/project/packages/app").rootDir).toBe("/test/project");
+  });
+
+  test("should resolve poOutputDirectory against the config file's directory", () => {
+    mockSearch.mockReturnValue({
+      filepath: "/test/project/i18next-auto-keys.config.js",
+      config: { poOutputDirectory: "locales" },
+    });
+
+    const { config } = loadConfig("/test/project/packages/app");
+
+    expect(config.poOutputDirectory).toBe(path.resolve("/test/project", "locales"));
+  });
+
   test("should merge partial configuration with defaults", () => {
     const mockConfig = {
       hashLength: 15,
@@ -117,6 +138,7 @@ describe("loadConfig", () => {
       topLevelKey: undefined,
       projectId: "app 1.0", // fallback when no package.json found
       jsonIndentSpaces: 2, // default
+      sourceLocale: "en",
     });
   });
 
@@ -146,6 +168,76 @@ describe("loadConfig", () => {
     expect(() => loadConfig("/test/project")).toThrow();
   });
 
+  test("should default runtimeImport kind to default", () => {
+    const mockConfig = {
+      runtimeImport: { from: "@/i18n/instance", name: "i18n" },
+    };
+
+    mockSearch.mockReturnValue({
+      filepath: "/test/project/package.json",
+      config: mockConfig,
+    });
+
+    const result = loadConfig("/test/project");
+
+    expect(result.config.runtimeImport).toEqual({ from: "@/i18n/instance", name: "i18n", kind: "default" });
+  });
+
+  test("should throw error for invalid runtimeImport name", () => {
+    const mockConfig = {
+      runtimeImport: { from: "@/i18n/instance", name: "my-i18n" }, // Must be a valid identifier
+    };
+
+    mockSearch.mockReturnValue({
+      filepath: "/test/project/package.json",
+      config: mockConfig,
+    });
+
+    expect(() => loadConfig("/test/project")).toThrow();
+  });
+
+  test("should accept named and custom keyStrategy values", () => {
+    const keyFunction = ({ source }: { source: string }) => source;
+
+    mockSearch.mockReturnValueOnce({ filepath: "/test/project/package.json", config: { keyStrategy: "path" } });
+    expect(loadConfig("/test/project").config.keyStrategy).toBe("path");
+
+    mockSearch.mockReturnValueOnce({ filepath: "/test/project/package.json", config: { keyStrategy: keyFunction } });
+    expect(loadConfig("/test/project").config.keyStrategy).toBe(keyFunction);
+  });
+
+  test("should accept shared file patterns, outputs and locales", () => {
+    const mockConfig = {
+      include: ["src/**/*.messages.ts"],
+      exclude: ["src/legacy/**"],
+      jsonOutputPath: "locales/{{lng}}.json",
+      sourceLocale: "en-US",
+      locales: ["de", "fr"],
+    };
+
+    mockSearch.mockReturnValue({ filepath: "/test/project/package.json", config: mockConfig });
+
+    expect(loadConfig("/test/project").config).toMatchObject(mockConfig);
+  });
+
+  test("should throw error for non-array include", () => {
+    mockSearch.mockReturnValue({
+      filepath: "/test/project/package.json",
+      config: { include: "src/**/*.messages.ts" },
+    });
+
+    expect(() => loadConfig("/test/project")).toThrow();
+  });
+
+  test("should throw error for unknown keyStrategy", () => {
+    mockSearch.mockReturnValue({
+      filepath: "/test/project/package.json",
+      config: { keyStrategy: "md5" },
+    });
+
+    expect(() => loadConfig("/test/project")).toThrow();
+  });
+
   test("should throw error for negative jsonIndentSpaces", () => {
     const mockConfig = {
       jsonIndentSpaces: -1, // Must be >= 0
@@ -175,6 +267,7 @@ describe("loadConfig", () => {
       topLevelKey: undefined,
       projectId: "app 1.0",
       jsonIndentSpaces: 2,
+      sourceLocale: "en",
     });
   });
 
@@ -0,0 +1,64 @@
+/**
+ * The config file's `include`/`exclude` globs, shared by `extract` (through the glob package) and the
+ * bundler plugins (through the matcher below), so a project declares its message files once.
+ */
+import path from "path";
+
+/** Excluded when neither the command line nor the config file says otherwise. */
+export const DEFAULT_EXCLUDE = ["node_modules/**", "dist/**", "build/**"];
+
+export type FilePatterns = {
+  include?: string[];
+  exclude?: string[];
+};
+
+// Compiled patterns, as the plugins match every module of every build
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Regular expression for a glob relative to the project root. Supports `**`, `*`, `?` and `{a,b}`,
+ * which covers the patterns `extract` is usually given; other characters match themselves.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = compiled.get(pattern);
+  if (regex) return regex;
+
+  const glob = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+
+  regex = new RegExp(`^${source}$`);
+  compiled.set(pattern, regex);
+  return regex;
+}
+
+/** Whether a file is matched by the include globs and none of the exclude globs, relative to `rootDir`. */
+export function matchesFilePatterns(file: string, patterns: FilePatterns, rootDir = process.cwd()): boolean {
+  const relative = path.relative(rootDir, file).replace(/\\/g, "/");
+  const matches = (glob: string) => globToRegExp(glob).test(relative);
+  const { include = [], exclude = DEFAULT_EXCLUDE } = patterns;
+  return include.some(matches) && !exclude.some(matches);
+}
@@ -1,21 +1,85 @@
 import { createHash } from "crypto";
 
-// optional: reduce churn from harmless edits
-function normalizeForHash(s: string) {
-  return s
-    .replace(/\r\n/g, "\n")
-    .replace(/\s+/g, " ")
-    .replace(/\s*([{}(),])\s*/g, "$1") // ICU punctuation spacing
-    .trim();
+/** Edits that don't change how a message renders, and so shouldn't change its key. */
+export type HashNormalization = {
+  /** Collapse whitespace runs (including line breaks) to one space and trim */
+  whitespace?: boolean;
+  /** Drop whitespace around ICU punctuation: `{ count, plural, one {...} }` -> `{count,plural,one{...}}` */
+  icuPunctuation?: boolean;
+  /**
+   * Treat a doubled ICU apostrophe (`''`) as a single one. Opt-in only: `''{name}''` and `'{name}'`
+   * render differently, so this can give different messages the same key.
+   */
+  quotes?: boolean;
+};
+
+/** What `true` means: the whitespace and ICU punctuation normalization `stableHash` has always applied. */
+export const DEFAULT_HASH_NORMALIZATION: HashNormalization = {
+  whitespace: true,
+  icuPunctuation: true,
+};
+
+export const FULL_HASH_NORMALIZATION: Required<HashNormalization> = {
+  whitespace: true,
+  icuPunctuation: true,
+  quotes: true,
+};
+
+/** The normalization configured by `hashNormalization`: true enables whitespace and ICU punctuation. */
+export function resolveHashNormalization(option: boolean | HashNormalization | undefined): HashNormalization {
+  if (option === true) return DEFAULT_HASH_NORMALIZATION;
+  return option || {};
+}
+
+// Reduce churn from harmless edits, e.g. Prettier re-wrapping a long message
+export function normalizeForHash(s: string, normalization: HashNormalization = DEFAULT_HASH_NORMALIZATION): string {
+  let out = s;
+  if (normalization.whitespace) out = out.replace(/\r\n/g, "\n").replace(/\s+/g, " ").trim();
+  if (normalization.icuPunctuation) out = out.replace(/\s*([{}(),])\s*/g, "$1");
+  if (normalization.quotes) out = out.replace(/''/g, "'");
+  return out;
+}
+
+export type HashAlgorithm = "sha1" | "sha256" | "fast";
+
+/** cyrb53-style non-cryptographic hash as 16 hex characters; much cheaper than SHA for short strings. */
+function fastHashBlock(text: string, seed: number): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0");
+}
+
+function fastHash(text: string, length: number): string {
+  let out = "";
+  for (let seed = 0; out.length < length; seed++) {
+    out += fastHashBlock(text, seed);
+  }
+  return out;
 }
 
 export function stableHash(
   text: string,
-  options: { context?: string; normalize?: boolean; hashLength?: number } = {}
+  options: {
+    context?: string;
+    normalize?: boolean | HashNormalization;
+    hashLength?: number;
+    algorithm?: HashAlgorithm;
+  } = {}
 ): string {
-  const { context = "", normalize = false, hashLength = 10 } = options;
-  const normalizedText = normalize ? normalizeForHash(text) : text;
+  const { context = "", normalize = false, hashLength = 10, algorithm = "sha1" } = options;
+  const normalizedText = normalize ? normalizeForHash(text, resolveHashNormalization(normalize)) : text;
   const textToHash = context && context.length > 0 ? `${normalizedText}::${context}` : normalizedText;
-  const h = createHash("sha1").update(textToHash, "utf8").digest("hex");
-  return h.slice(0, Math.max(4, hashLength));
+  const length = Math.max(4, hashLength);
+  if (algorithm === "fast") return fastHash(textToHash, length).slice(0, length);
+  const h = createHash(algorithm).update(textToHash, "utf8").digest("hex");
+  return h.slice(0, length);
 }
@@ -0,0 +1,25 @@
+import type { Entry, MessageRecord } from "./i18nStore";
+
+/**
+ * Hooks for observing and post-processing the messages a build collects, accepted by both the
+ * webpack emit plugin and the Rollup/Vite plugin.
+ */
+export type I18nextAutoKeyHooks = {
+  /**
+   * Called for every message as files are transformed. Modules restored from webpack's cache or
+   * transformed in a thread-loader worker are not transformed in the build; use `onCatalogReady`
+   * to see every message.
+   */
+  onMessageRecorded?: (message: MessageRecord) => void;
+  /** Rewrite or enrich the catalog before it is emitted. Returns the entries to emit. */
+  transformCatalog?: (entries: Entry[]) => Entry[] | Promise<Entry[]>;
+  /** Called once per build with the catalog that is emitted, after `transformCatalog`. */
+  onCatalogReady?: (entries: readonly Entry[]) => void | Promise<void>;
+};
+
+/** Run `transformCatalog` and then `onCatalogReady`, and return the catalog to emit. */
+export async function runCatalogHooks(entries: Entry[], hooks: I18nextAutoKeyHooks | undefined): Promise<Entry[]> {
+  const catalog = hooks?.transformCatalog ? await hooks.transformCatalog(entries) : entries;
+  await hooks?.onCatalogReady?.(catalog);
+  return catalog;
+}
@@ -11,7 +11,12 @@ export type PoRef = {
 export type Entry = {
   id: string; // hash key (will be generated from source + translationContext)
   source: string; // English ICU text (msgid)
+  keySource?: string; // Text the key was hashed from, when hashNormalization changed it
   translationContext?: string; // Translation context from @translationContext (msgctxt)
+  namespace?: string; // i18next namespace from @namespace or config (undefined = default namespace)
+  explicitKey?: boolean; // id comes verbatim from a @key tag instead of a hash
+  conflictingSources?: Set<string>; // Other sources that claimed the same explicit key
+  richTextTags?: string[]; // Tags of a @richText message that translators must keep
   refs: Set<string>; // "file:line:column" strings (deduped)
   extractedComments: Set<string>; // "#. comment" lines
   parameterMetadata?: ParameterMetadata; // Parameter names and JSDoc for indexed mode
@@ -21,53 +26,247 @@ export type ParameterMetadata = {
   parameterNames: string[]; // Parameter names in order
   parameterTypes: string[]; // Parameter types in order
   parameterJSDoc: { [paramName: string]: string }; // JSDoc for each parameter
+  parameterDefaults?: { [paramName: string]: string }; // Default value source text, if declared
 };
 
-class I18nStore {
+/** A message found at one location, as recorded in the store. Plain data, so bundler caches can keep it. */
+export type MessageRecord = {
+  id: string;
+  source: string;
+  /** Text the key was hashed from, when hashNormalization changed it */
+  keySource?: string;
+  translationContext?: string;
+  namespace?: string;
+  explicitKey?: boolean;
+  richTextTags?: string[];
+  ref: PoRef;
+  comments?: string[];
+  parameterMetadata?: ParameterMetadata;
+};
+
+/** Two or more different messages whose text hashes to the same key. */
+export type KeyCollision = {
+  /** The hashed key the messages share */
+  id: string;
+  /** The messages in resolution order: the first keeps the key, the others use a derived key */
+  messages: Array<{ source: string; translationContext?: string; ref: string }>;
+  /** Whether another message was already emitted with the key before the message that keeps it was seen */
+  stale: boolean;
+  /**
+   * Whether the key isn't a hash of the text (a `path` key, or one from a key function). Which
+   * message gets such a key depends on the text, not the path, so the collision is an error.
+   */
+  readable: boolean;
+};
+
+type KeyClaim = { source: string; translationContext?: string; ref: string; readable?: boolean };
+
+/**
+ * Plain-data copy of a store from `toJSON()`, which can cross thread and process boundaries (e.g.
+ * from a `thread-loader` worker or a parallel extraction process) and be merged into another store.
+ */
+export type I18nStoreSnapshot = {
+  version: 1;
+  entries: Array<
+    Omit<Entry, "refs" | "extractedComments" | "conflictingSources"> & {
+      refs: string[];
+      extractedComments: string[];
+      conflictingSources?: string[];
+    }
+  >;
+  /** Messages that claimed each hashed key, and the message that was given the key */
+  claims: Array<{ id: string; messages: KeyClaim[]; holder?: string }>;
+};
+
+/** Identity of a message for key resolution: its text and translation context. */
+function messageIdentity(source: string, translationContext?: string): string {
+  return `${source}\u0004${translationContext ?? ""}`;
+}
+
+function formatRef(ref: PoRef): string {
+  return `${ref.file}:${ref.line}:${ref.column}`;
+}
+
+/**
+ * Messages collected during a build, from which the JSON and POT outputs are generated. The
+ * plugins create one store per build, so builds running side by side don't share messages.
+ */
+export class I18nStore {
   private map = new Map<string, Entry>();
+  // Messages claiming each hashed key. Kept across clear() so later builds in the same process
+  // resolve a collision the same way, whichever file is transformed first; clear() only forgets
+  // the messages the finished build didn't see, e.g. deleted or edited ones.
+  private claims = new Map<string, Map<string, KeyClaim>>();
+  // Per build: the messages that claimed each key, and the message given the key
+  private claimedInBuild = new Map<string, Set<string>>();
+  private keyHolders = new Map<string, string>();
+  private staleKeys = new Set<string>();
+
+  /** @param onMessageRecorded Called with every message added to the store */
+  constructor(private readonly onMessageRecorded?: (message: MessageRecord) => void) {}
 
   clear() {
+    for (const [id, claimants] of this.claims) {
+      const seen = this.claimedInBuild.get(id);
+      for (const identity of claimants.keys()) {
+        if (!seen?.has(identity)) claimants.delete(identity);
+      }
+      if (claimants.size === 0) this.claims.delete(id);
+    }
     this.map.clear();
+    this.claimedInBuild.clear();
+    this.keyHolders.clear();
+    this.staleKeys.clear();
+  }
+
+  /**
+   * A store for the messages of one module, e.g. for a bundler cache. It resolves keys against the
+   * claims of this store, and its snapshot carries the module's entries and key claims, so merging
+   * it into a later build's store reports collisions with modules transformed in that build.
+   */
+  forModule(): I18nStore {
+    const store = new I18nStore(this.onMessageRecorded);
+    store.claims = this.claims;
+    return store;
+  }
+
+  /**
+   * Claim a hashed key for a message. When different messages hash to the same key, the one whose
+   * text (and context) sorts first keeps it; returns false when the message must use a derived key.
+   * `readable` marks keys that aren't hashes of the text, e.g. `path` keys.
+   */
+  claimKey(id: string, source: string, translationContext: string | undefined, ref: PoRef, readable = false): boolean {
+    const claim: KeyClaim = { source, translationContext, ref: formatRef(ref) };
+    if (readable) claim.readable = true;
+    const identity = this.recordClaim(id, claim);
+    const owner = this.keyOwner(id);
+    if (identity !== owner) return false;
+
+    // A message that sorts later was already given the key in this build; its code is now wrong
+    const holder = this.keyHolders.get(id);
+    if (holder !== undefined && holder !== identity) this.staleKeys.add(id);
+    this.keyHolders.set(id, identity);
+    return true;
+  }
+
+  private recordClaim(id: string, claim: KeyClaim): string {
+    const identity = messageIdentity(claim.source, claim.translationContext);
+    let claimants = this.claims.get(id);
+    if (!claimants) {
+      claimants = new Map();
+      this.claims.set(id, claimants);
+    }
+    let inBuild = this.claimedInBuild.get(id);
+    if (!inBuild) {
+      inBuild = new Set();
+      this.claimedInBuild.set(id, inBuild);
+    }
+    // Report each message at the first location seen in the current build
+    if (!inBuild.has(identity)) {
+      claimants.set(identity, claim);
+      inBuild.add(identity);
+    }
+    return identity;
+  }
+
+  private keyOwner(id: string): string {
+    return Array.from(this.claims.get(id)!.keys()).sort()[0];
+  }
+
+  /**
+   * Whether the module of a snapshot was given a key that a message sorting first keeps, so its code
+   * uses the shared key. Transforming the module again against this store gives it a derived key.
+   */
+  hasStaleKeys(snapshot: I18nStoreSnapshot): boolean {
+    return snapshot.claims.some(
+      ({ id, holder }) => holder !== undefined && this.claims.has(id) && holder !== this.keyOwner(id)
+    );
+  }
+
+  /** Key collisions between messages seen since the last clear(), sorted by key. */
+  collisions(): KeyCollision[] {
+    const result: KeyCollision[] = [];
+    for (const [id, identities] of this.claimedInBuild) {
+      if (identities.size < 2) continue;
+      const claimants = this.claims.get(id)!;
+      const claims = Array.from(identities)
+        .sort()
+        .map((identity) => claimants.get(identity)!);
+      const messages = claims.map(({ readable, ...message }) => message);
+      const readable = claims.some((claim) => claim.readable);
+      result.push({ id, messages, stale: this.staleKeys.has(id), readable });
+    }
+    return result.sort((a, b) => a.id.localeCompare(b.id));
   }
 
   all(): ReadonlyMap<string, Entry> {
     return this.map;
   }
 
-  /** Adds/merges an entry with reference and comments */
-  add(params: {
-    id: string;
-    source: string;
-    translationContext?: string;
-    ref: PoRef;
-    comments?: string[];
-    parameterMetadata?: ParameterMetadata;
-  }) {
-    const key = params.id;
+  /**
+   * The entry a message with this id and source is merged into, or undefined when the message
+   * loses a hash collision.
+   */
+  private entryFor(
+    id: string,
+    source: string,
+    namespace?: string,
+    explicitKey?: boolean,
+    keySource?: string
+  ): Entry | undefined {
+    // The same id may legitimately exist in several namespaces
+    const key = namespace ? `${namespace}:${id}` : id;
     // Intern the source string to avoid duplication
-    const internedSource = stringPool.intern(params.source);
+    const internedSource = stringPool.intern(source);
 
     let e = this.map.get(key);
     if (!e) {
-      e = { id: key, source: internedSource, refs: new Set(), extractedComments: new Set() };
+      e = { id, source: internedSource, refs: new Set(), extractedComments: new Set() };
+      if (keySource !== undefined) e.keySource = keySource;
+      if (namespace) e.namespace = namespace;
+      if (explicitKey) e.explicitKey = true;
       this.map.set(key, e);
-    } else {
-      // keep latest source if it somehow changed
+    } else if (explicitKey) {
+      // Two messages claiming the same explicit key with different text is a user error worth reporting
+      if (e.source !== internedSource) {
+        (e.conflictingSources ??= new Set()).add(e.source);
+      }
       e.source = internedSource;
+    } else if (internedSource !== e.source && (keySource ?? source) === (e.keySource ?? e.source)) {
+      // Variants of one message under hashNormalization share the entry; keep the text that sorts first
+      if (internedSource < e.source) e.source = internedSource;
+    } else if (internedSource !== e.source) {
+      // A hash collision (see claimKey): keep the message that sorts first, whatever the order
+      if (internedSource > e.source) return undefined;
+      e = { id, source: internedSource, refs: new Set(), extractedComments: new Set() };
+      if (keySource !== undefined) e.keySource = keySource;
+      if (namespace) e.namespace = namespace;
+      this.map.set(key, e);
     }
+    return e;
+  }
+
+  /** Adds/merges an entry with reference and comments */
+  add(params: MessageRecord) {
+    this.onMessageRecorded?.(params);
+    const e = this.entryFor(params.id, params.source, params.namespace, params.explicitKey, params.keySource);
+    if (!e) return;
 
     // Update translation context if provided
     if (params.translationContext !== undefined) {
       e.translationContext = params.translationContext;
     }
 
+    if (params.richTextTags) {
+      e.richTextTags = params.richTextTags;
+    }
+
     // Update parameter metadata if provided
     if (params.parameterMetadata) {
       e.parameterMetadata = params.parameterMetadata;
     }
 
-    const refKey = `${params.ref.file}:${params.ref.line}:${params.ref.column}`;
-    e.refs.add(refKey);
+    e.refs.add(formatRef(params.ref));
     if (params.comments) {
       for (const c of params.comments) {
         const trimmed = (c || "").trim();
@@ -75,11 +274,76 @@ class I18nStore {
       }
     }
   }
+
+  /** Copy the entries and key claims of the current build into plain data (see `merge`). */
+  toJSON(): I18nStoreSnapshot {
+    const entries = Array.from(this.map.values(), ({ refs, extractedComments, conflictingSources, ...entry }) => ({
+      ...entry,
+      refs: Array.from(refs),
+      extractedComments: Array.from(extractedComments),
+      ...(conflictingSources ? { conflictingSources: Array.from(conflictingSources) } : {}),
+    }));
+    const claims = Array.from(this.claimedInBuild, ([id, identities]) => {
+      const claimants = this.claims.get(id)!;
+      return {
+        id,
+        messages: Array.from(identities, (identity) => claimants.get(identity)!),
+        holder: this.keyHolders.get(id),
+      };
+    });
+    return { version: 1, entries, claims };
+  }
+
+  /**
+   * Merge a snapshot from another store, e.g. one filled in a worker, as if its messages had been
+   * added to this store. Key collisions between the two stores are reported by `collisions()`.
+   */
+  merge(snapshot: I18nStoreSnapshot) {
+    if (!snapshot || snapshot.version !== 1 || !Array.isArray(snapshot.entries) || !Array.isArray(snapshot.claims)) {
+      throw new Error("Invalid i18nStore snapshot: expected the result of I18nStore.toJSON()");
+    }
+
+    for (const { id, messages, holder } of snapshot.claims) {
+      for (const message of messages) this.recordClaim(id, message);
+      // Either store may have given the key to a message that no longer keeps it
+      const owner = this.keyOwner(id);
+      const holders = [holder, this.keyHolders.get(id)].filter((h) => h !== undefined);
+      if (holders.some((h) => h !== owner)) this.staleKeys.add(id);
+      if (holders.length > 0) this.keyHolders.set(id, owner);
+    }
+
+    for (const entry of snapshot.entries) {
+      const e = this.entryFor(entry.id, entry.source, entry.namespace, entry.explicitKey, entry.keySource);
+      if (!e) continue;
+      for (const source of entry.conflictingSources ?? []) {
+        if (source !== e.source) (e.conflictingSources ??= new Set()).add(source);
+      }
+      if (entry.translationContext !== undefined) e.translationContext = entry.translationContext;
+      if (entry.richTextTags) e.richTextTags = entry.richTextTags;
+      if (entry.parameterMetadata) e.parameterMetadata = entry.parameterMetadata;
+      for (const ref of entry.refs) e.refs.add(ref);
+      for (const comment of entry.extractedComments) e.extractedComments.add(comment);
+    }
+  }
 }
 
+/** Store used by transforms that aren't given one, e.g. the loader without the emit plugin. */
 export const i18nStore = new I18nStore();
 
+/** Describe a key collision and how it was resolved, with the location of each message. */
+export function formatKeyCollision(collision: KeyCollision): string {
+  const [owner, ...others] = collision.messages.map((m) => JSON.stringify(m.source));
+  const locations = collision.messages.map((m) => `${JSON.stringify(m.source)} (${m.ref})`).join(", ");
+  const found = `Key "${collision.id}" is generated by different messages: ${locations}.`;
+  if (collision.readable) {
+    return `${found} Rename one of the messages' objects, or give one of the messages a @key tag.`;
+  }
+  const text = `${found} ${owner} keeps the key and ${others.join(", ")} ${others.length === 1 ? "uses" : "use"} a derived key.`;
+  if (!collision.stale) return text;
+  return `${text} A message was already emitted with the shared key before the collision was found; give one of the messages a @key tag.`;
+}
+
 /** Utility to make a repo-relative, POSIX-style path for PO refs */
-export function toRelPosix(abs: string): string {
-  return path.relative(process.cwd(), abs).split(path.sep).join("/");
+export function toRelPosix(abs: string, rootDir = process.cwd()): string {
+  return path.relative(rootDir, abs).split(path.sep).join("/");
 }
@@ -0,0 +1,247 @@
+/**
+ * Minimal ICU MessageFormat parser.
+ *
+ * Supports the subset used by i18next-icu messages: simple arguments (`{name}`),
+ * formatted arguments (`{price, number}`), `plural`, `selectordinal` and `select`
+ * arguments, the `#` shorthand inside plural branches, and apostrophe quoting.
+ * Offsets are kept on argument names so callers can rewrite them in place.
+ */
+
+export type IcuLiteral = { type: "literal"; value: string };
+export type IcuPound = { type: "pound" };
+export type IcuArgument = {
+  type: "argument";
+  name: string;
+  /** Offset range of the argument name in the source message */
+  nameStart: number;
+  nameEnd: number;
+  /** Optional format such as "number" or "date" */
+  format?: string;
+  /** Optional format style such as "short" or "::currency/EUR" */
+  style?: string;
+};
+export type IcuChoice = {
+  type: "plural" | "selectordinal" | "select";
+  name: string;
+  nameStart: number;
+  nameEnd: number;
+  /** Plural offset (`offset:1`), 0 when absent */
+  offset: number;
+  /** Branches keyed by selector, e.g. "one", "other" or "=0" */
+  options: Record<string, IcuNode[]>;
+};
+export type IcuNode = IcuLiteral | IcuPound | IcuArgument | IcuChoice;
+
+export class IcuSyntaxError extends Error {
+  constructor(
+    message: string,
+    /** Offset in the source message where the error was detected */
+    public readonly offset: number
+  ) {
+    super(message);
+    this.name = "IcuSyntaxError";
+  }
+}
+
+const WHITESPACE = /\s/;
+
+/**
+ * Parse an ICU message into a node tree.
+ * @throws IcuSyntaxError when the message is not valid ICU MessageFormat
+ */
+export function parseIcu(message: string): IcuNode[] {
+  let pos = 0;
+
+  function skipWhitespace() {
+    while (pos < message.length && WHITESPACE.test(message[pos])) pos++;
+  }
+
+  function readWord(): string {
+    const start = pos;
+    while (pos < message.length && !WHITESPACE.test(message[pos]) && !/[{},]/.test(message[pos])) pos++;
+    return message.slice(start, pos);
+  }
+
+  function expect(ch: string) {
+    if (message[pos] !== ch) {
+      throw new IcuSyntaxError(
+        pos < message.length ? `Expected "${ch}" but found "${message[pos]}"` : `Expected "${ch}" but reached the end`,
+        pos
+      );
+    }
+    pos++;
+  }
+
+  function parseNodes(depth: number, inPlural: boolean): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) nodes.push({ type: "literal", value: text });
+      text = "";
+    };
+
+    while (pos < message.length) {
+      const ch = message[pos];
+      if (ch === "}") {
+        if (depth === 0) throw new IcuSyntaxError('Unmatched "}"', pos);
+        break;
+      }
+      if (ch === "{") {
+        flush();
+        nodes.push(parseArgument(inPlural));
+        continue;
+      }
+      if (ch === "#" && inPlural) {
+        flush();
+        nodes.push({ type: "pound" });
+        pos++;
+        continue;
+      }
+      if (ch === "'") {
+        const next = message[pos + 1];
+        if (next === "'") {
+          text += "'";
+          pos += 2;
+          continue;
+        }
+        if (next === "{" || next === "}" || (next === "#" && inPlural)) {
+          // Quoted literal runs until the next single apostrophe (or the end)
+          pos++;
+          while (pos < message.length) {
+            if (message[pos] === "'") {
+              if (message[pos + 1] === "'") {
+                text += "'";
+                pos += 2;
+                continue;
+              }
+              pos++;
+              break;
+            }
+            text += message[pos++];
+          }
+          continue;
+        }
+      }
+      text += ch;
+      pos++;
+    }
+    flush();
+    return nodes;
+  }
+
+  function parseArgument(inPlural: boolean): IcuNode {
+    const open = pos;
+    expect("{");
+    skipWhitespace();
+    const nameStart = pos;
+    const name = readWord();
+    const nameEnd = pos;
+    if (!name) throw new IcuSyntaxError("Expected an argument name", pos);
+    skipWhitespace();
+
+    if (message[pos] === "}") {
+      pos++;
+      return { type: "argument", name, nameStart, nameEnd };
+    }
+    if (message[pos] !== ",") {
+      throw new IcuSyntaxError(
+        pos < message.length ? `Unexpected "${message[pos]}" in argument "${name}"` : `Unclosed argument "${name}"`,
+        pos < message.length ? pos : open
+      );
+    }
+    pos++;
+    skipWhitespace();
+    const format = readWord();
+    if (!format) throw new IcuSyntaxError(`Expected a format for argument "${name}"`, pos);
+    skipWhitespace();
+
+    if (format === "plural" || format === "selectordinal" || format === "select") {
+      expect(",");
+      return parseChoice(format, name, nameStart, nameEnd, format === "select" ? inPlural : true);
+    }
+
+    if (message[pos] === "}") {
+      pos++;
+      return { type: "argument", name, nameStart, nameEnd, format };
+    }
+    expect(",");
+    // Style runs to the matching closing brace
+    const styleStart = pos;
+    let braces = 0;
+    while (pos < message.length && (message[pos] !== "}" || braces > 0)) {
+      if (message[pos] === "{") braces++;
+      if (message[pos] === "}") braces--;
+      pos++;
+    }
+    const style = message.slice(styleStart, pos).trim();
+    expect("}");
+    return { type: "argument", name, nameStart, nameEnd, format, style };
+  }
+
+  function parseChoice(
+    type: IcuChoice["type"],
+    name: string,
+    nameStart: number,
+    nameEnd: number,
+    inPlural: boolean
+  ): IcuChoice {
+    const options: Record<string, IcuNode[]> = {};
+    let offset = 0;
+    skipWhitespace();
+
+    if (type !== "select" && message.startsWith("offset:", pos)) {
+      pos += "offset:".length;
+      skipWhitespace();
+      const value = readWord();
+      if (!/^\d+$/.test(value)) throw new IcuSyntaxError(`Invalid plural offset "${value}"`, pos);
+      offset = Number(value);
+    }
+
+    for (;;) {
+      skipWhitespace();
+      if (pos >= message.length) throw new IcuSyntaxError(`Unclosed ${type} argument "${name}"`, nameStart);
+      if (message[pos] === "}") break;
+      const selectorStart = pos;
+      const selector = readWord();
+      if (!selector) throw new IcuSyntaxError(`Expected a ${type} selector`, pos);
+      if (Object.prototype.hasOwnProperty.call(options, selector))
+        throw new IcuSyntaxError(`Duplicate selector "${selector}"`, selectorStart);
+      skipWhitespace();
+      expect("{");
+      options[selector] = parseNodes(1, inPlural);
+      expect("}");
+    }
+    pos++;
+
+    if (!Object.prototype.hasOwnProperty.call(options, "other")) {
+      throw new IcuSyntaxError(`The ${type} argument "${name}" requires an "other" option`, nameStart);
+    }
+    return { type, name, nameStart, nameEnd, offset, options };
+  }
+
+  return parseNodes(0, false);
+}
+
+/**
+ * Rename arguments in place, keeping the rest of the message (quoting, whitespace) untouched.
+ * `rename` returns the new name, or undefined to keep an argument as is.
+ * @throws IcuSyntaxError when the message is not valid ICU MessageFormat
+ */
+export function renameIcuArguments(message: string, rename: (name: string) => string | undefined): string {
+  const edits: Array<{ start: number; end: number; name: string }> = [];
+  const visit = (nodes: IcuNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "literal" || node.type === "pound") continue;
+      const name = rename(node.name);
+      if (name !== undefined && name !== node.name) edits.push({ start: node.nameStart, end: node.nameEnd, name });
+      if (node.type !== "argument") Object.values(node.options).forEach(visit);
+    }
+  };
+  visit(parseIcu(message));
+
+  let out = message;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.name + out.slice(edit.end);
+  }
+  return out;
+}
@@ -0,0 +1,109 @@
+import type { Entry } from "./i18nStore";
+import { toDictionaryEntries, IcuMode } from "./nativeFormat";
+
+/** Placeholder in `jsonOutputPath` that is replaced by each namespace, e.g. "locales/en/{{ns}}.json". */
+export const NAMESPACE_PLACEHOLDER = "{{ns}}";
+
+/** Placeholder in `jsonOutputPath` that is replaced by the locale, e.g. "locales/{{lng}}.json". */
+export const LOCALE_PLACEHOLDER = "{{lng}}";
+
+/** i18next's own default namespace, used for entries without one. */
+export const FALLBACK_NAMESPACE = "translation";
+
+export type JsonOutputOptions = {
+  /** Output path, optionally containing the {{ns}} placeholder to split output per namespace */
+  jsonOutputPath: string;
+  /** Optional top level key to wrap translations under */
+  topLevelKey?: string;
+  /** JSON indentation spaces */
+  indentSpaces: number;
+  /** Namespace for entries that don't declare one when splitting per namespace */
+  defaultNamespace?: string;
+  /** "native" converts ICU messages to i18next interpolation and plural suffix keys */
+  icuMode?: IcuMode;
+};
+
+/** What the JSON output needs from an entry: its key, its text (or translation) and its namespace. */
+export type JsonEntry = Pick<Entry, "id" | "source" | "namespace">;
+
+export type JsonOutput = {
+  /** Output file name (forward slashes) */
+  fileName: string;
+  /** Serialized JSON content */
+  content: string;
+  /** Namespace of the file, when split per namespace */
+  namespace?: string;
+};
+
+export function hasNamespacePlaceholder(jsonOutputPath: string): boolean {
+  return jsonOutputPath.includes(NAMESPACE_PLACEHOLDER);
+}
+
+export function hasLocalePlaceholder(jsonOutputPath: string): boolean {
+  return jsonOutputPath.includes(LOCALE_PLACEHOLDER);
+}
+
+/** The output path of one namespace, e.g. "locales/en/checkout.json" for "locales/en/{{ns}}.json". */
+export function namespaceOutputPath(jsonOutputPath: string, namespace: string): string {
+  return jsonOutputPath.split(NAMESPACE_PLACEHOLDER).join(namespace);
+}
+
+/** The output path of one locale: the plugins emit the source locale, `convert` each translated one. */
+export function localizeOutputPath(jsonOutputPath: string, locale: string): string {
+  return jsonOutputPath.split(LOCALE_PLACEHOLDER).join(locale);
+}
+
+function serialize(entries: JsonEntry[], options: JsonOutputOptions): string {
+  // --- JSON (id -> source) ---
+  const pairs = entries.flatMap((e) => toDictionaryEntries(e.id, e.source, options.icuMode));
+
+  // Sort for a stable output
+  const dict: Record<string, string> = {};
+  for (const [key, value] of pairs.sort((a, b) => a[0].localeCompare(b[0]))) dict[key] = value;
+
+  // Optionally wrap under topLevelKey
+  const finalOutput = options.topLevelKey ? { [options.topLevelKey]: dict } : dict;
+  return JSON.stringify(finalOutput, null, options.indentSpaces);
+}
+
+/**
+ * Build the runtime JSON file(s) for the collected entries.
+ * Emits a single file, or one file per namespace when `jsonOutputPath` contains {{ns}}.
+ */
+export function buildJsonOutputs(entries: Iterable<JsonEntry>, options: JsonOutputOptions): JsonOutput[] {
+  const all = Array.from(entries);
+  const outputPath = options.jsonOutputPath.replace(/\\/g, "/");
+
+  if (!hasNamespacePlaceholder(outputPath)) {
+    return [{ fileName: outputPath, content: serialize(all, options) }];
+  }
+
+  const byNamespace = new Map<string, JsonEntry[]>();
+  for (const e of all) {
+    const ns = e.namespace ?? options.defaultNamespace ?? FALLBACK_NAMESPACE;
+    const list = byNamespace.get(ns) ?? [];
+    list.push(e);
+    byNamespace.set(ns, list);
+  }
+  if (byNamespace.size === 0) {
+    byNamespace.set(options.defaultNamespace ?? FALLBACK_NAMESPACE, []);
+  }
+
+  return Array.from(byNamespace.keys())
+    .sort()
+    .map((ns) => ({
+      fileName: namespaceOutputPath(outputPath, ns),
+      content: serialize(byNamespace.get(ns)!, options),
+      namespace: ns,
+    }));
+}
+
+/** Namespaces used by entries that would be merged into a single file because the path has no {{ns}}. */
+export function unsplitNamespaces(entries: Iterable<JsonEntry>, jsonOutputPath: string): string[] {
+  if (hasNamespacePlaceholder(jsonOutputPath)) return [];
+  const namespaces = new Set<string>();
+  for (const e of entries) {
+    if (e.namespace) namespaces.add(e.namespace);
+  }
+  return Array.from(namespaces).sort();
+}
@@ -0,0 +1,136 @@
+/**
+ * Key lock file (`keys.lock.json` in the PO output directory), maintained by `extract` when
+ * `keyLock` is enabled. It maps each message's identity (its file and object path) to its key, so
+ * editing the English text of a locked message keeps the key, and with it the existing translations.
+ */
+import fs from "fs";
+import path from "path";
+
+export const KEY_LOCK_FILE_NAME = "keys.lock.json";
+
+export type KeyLockEntry = {
+  key: string;
+  /** Message text when the lock was last updated */
+  source: string;
+  translationContext?: string;
+};
+
+export type KeyLock = {
+  version: 1;
+  /** Lock entries by message identity, e.g. "src/login.messages.ts#LoginMessages.title" */
+  messages: Record<string, KeyLockEntry>;
+};
+
+/** A locked message whose text or context changed while it kept its key. */
+export type KeyLockChange = {
+  identity: string;
+  key: string;
+  previous: KeyLockEntry;
+  current: KeyLockEntry;
+};
+
+export function keyLockPath(poOutputDirectory: string): string {
+  return path.join(poOutputDirectory, KEY_LOCK_FILE_NAME);
+}
+
+/** Identity of a message in the lock: its repo-relative file and object path. */
+export function lockIdentity(file: string, messagePath: string): string {
+  return `${file}#${messagePath}`;
+}
+
+/** Read a lock file. A missing file is an empty lock. */
+export function readKeyLock(file: string): KeyLock {
+  if (!fs.existsSync(file)) return { version: 1, messages: {} };
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Invalid key lock file ${file}: ${(error as Error).message}`);
+  }
+  if (!parsed || parsed.version !== 1 || typeof parsed.messages !== "object" || parsed.messages === null) {
+    throw new Error(`Invalid key lock file ${file}: expected { "version": 1, "messages": { ... } }`);
+  }
+  return parsed as KeyLock;
+}
+
+/** Write a lock file with its messages sorted, so it diffs cleanly in version control. */
+export function writeKeyLock(file: string, lock: KeyLock): void {
+  const messages: Record<string, KeyLockEntry> = {};
+  for (const identity of Object.keys(lock.messages).sort()) {
+    messages[identity] = lock.messages[identity];
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ version: 1, messages }, null, 2) + "\n", "utf8");
+}
+
+// Number of lock entries per key, computed once per lock
+const keyUseCounts = new WeakMap<KeyLock, Map<string, number>>();
+
+function keyUseCount(lock: KeyLock, key: string): number {
+  let counts = keyUseCounts.get(lock);
+  if (!counts) {
+    counts = new Map();
+    for (const entry of Object.values(lock.messages)) {
+      counts.set(entry.key, (counts.get(entry.key) ?? 0) + 1);
+    }
+    keyUseCounts.set(lock, counts);
+  }
+  return counts.get(key) ?? 0;
+}
+
+/**
+ * The locked key of a message, or undefined when it isn't locked. A message whose text changed
+ * only keeps its key when no other locked message uses it: a key can't carry two texts.
+ */
+export function findLockedKey(
+  lock: KeyLock,
+  identity: string,
+  source: string,
+  translationContext: string | undefined
+): string | undefined {
+  const entry = lock.messages[identity];
+  if (!entry) return undefined;
+  const unchanged = entry.source === source && entry.translationContext === translationContext;
+  if (!unchanged && keyUseCount(lock, entry.key) > 1) return undefined;
+  return entry.key;
+}
+
+/**
+ * The lock for the messages found by a full extraction: new messages are added, removed ones are
+ * dropped, and locked messages whose text or context changed are returned as changes.
+ */
+export function updateKeyLock(
+  previous: KeyLock,
+  messages: Record<string, KeyLockEntry>
+): { lock: KeyLock; changes: KeyLockChange[] } {
+  const changes: KeyLockChange[] = [];
+  for (const identity of Object.keys(messages).sort()) {
+    const before = previous.messages[identity];
+    const current = messages[identity];
+    if (
+      before &&
+      before.key === current.key &&
+      (before.source !== current.source || before.translationContext !== current.translationContext)
+    ) {
+      changes.push({ identity, key: current.key, previous: before, current });
+    }
+  }
+  return { lock: { version: 1, messages }, changes };
+}
+
+/** Locked keys by message text and context, for PO entries that don't carry their keys. */
+export function lockedKeysBySource(lock: KeyLock): Map<string, string[]> {
+  const keys = new Map<string, string[]>();
+  for (const entry of Object.values(lock.messages)) {
+    const id = lockSourceId(entry.source, entry.translationContext);
+    const list = keys.get(id) ?? [];
+    if (!list.includes(entry.key)) list.push(entry.key);
+    keys.set(id, list);
+  }
+  return keys;
+}
+
+export function lockSourceId(source: string, translationContext: string | undefined): string {
+  return `${source}\u0004${translationContext ?? ""}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * How message keys are computed.
+ *
+ * - `sha1` (default), `sha256`, `fast`: a hash of the message text and translation context
+ * - `path`: the message's object path, e.g. `LoginMessages.errorInvalid`
+ * - a function receiving the message and returning its key
+ *
+ * Keys that can't be recomputed from a POT entry (paths, or whatever a custom function derives
+ * from the path) are recorded in the POT file by `extract`, so `convert` writes them unchanged.
+ */
+import { stableHash } from "./hash";
+import type { HashNormalization } from "./hash";
+
+export type KeyInput = {
+  /** Message text (ICU), as it appears as msgid in the POT file */
+  source: string;
+  /** Translation context from @translationContext */
+  translationContext?: string;
+  /** Object path of the message, e.g. "LoginMessages.errorInvalid". Undefined when computing from a POT entry. */
+  path?: string;
+  /** Configured hash length */
+  hashLength: number;
+};
+
+export type KeyFunction = (input: KeyInput) => string;
+
+export type KeyStrategy = "sha1" | "sha256" | "fast" | "path" | KeyFunction;
+
+/** Key settings, as in the config file. */
+export type KeyOptions = {
+  hashLength: number;
+  keyStrategy?: KeyStrategy;
+  hashNormalization?: boolean | HashNormalization;
+};
+
+/** Whether keys depend on more than the text and context, so equal messages can have different keys. */
+export function isPathBasedStrategy(strategy: KeyStrategy | undefined): boolean {
+  return strategy === "path" || typeof strategy === "function";
+}
+
+/**
+ * Compute the key of a message. The `path` strategy falls back to a SHA-1 hash when the path is
+ * unknown (e.g. default exports, or when computing from a POT entry). Hashes are computed from the
+ * text normalized with `normalization`; custom functions receive the text as written.
+ */
+export function computeKey(
+  strategy: KeyStrategy | undefined,
+  input: KeyInput,
+  normalization?: HashNormalization
+): string {
+  const { source, translationContext, path, hashLength } = input;
+  if (typeof strategy === "function") {
+    const key = strategy(input);
+    if (typeof key !== "string" || key.length === 0) {
+      throw new Error(`keyStrategy returned an invalid key for "${source}": ${JSON.stringify(key)}`);
+    }
+    return key;
+  }
+  if (strategy === "path" && path) return path;
+  const algorithm = strategy === "sha256" || strategy === "fast" ? strategy : "sha1";
+  return stableHash(source, { context: translationContext, hashLength, algorithm, normalize: normalization });
+}
+
+/**
+ * Key for a message whose key is already taken by a different message. Hashed keys get a
+ * longer hash; readable keys keep their text and get a short hash suffix.
+ */
+export function deriveKey(
+  strategy: KeyStrategy | undefined,
+  key: string,
+  compositeKey: string,
+  hashLength: number
+): string {
+  if (isPathBasedStrategy(strategy)) {
+    return `${key}_${stableHash(compositeKey, { hashLength: 6 })}`;
+  }
+  const algorithm = strategy === "sha256" || strategy === "fast" ? strategy : "sha1";
+  return stableHash(compositeKey + ":" + key, { hashLength: Math.min(40, hashLength + 2), algorithm });
+}
@@ -0,0 +1,109 @@
+/**
+ * Conversion of ICU messages to native i18next syntax for apps that don't use i18next-icu.
+ *
+ * - `{name}` becomes `{{name}}` and `{price, number}` becomes `{{price, number}}`
+ * - A single `plural` argument is split into i18next plural suffix keys
+ *   (`<key>_one`, `<key>_other`, ...), with `#` rendered as `{{count}}`
+ *
+ * Messages that can't be expressed natively (select, selectordinal, nested or multiple
+ * plurals, offsets, exact matches other than `=0`) are reported as unsupported.
+ */
+import { parseIcu, IcuNode, IcuChoice } from "./icu";
+
+export type IcuMode = "icu" | "native";
+
+export type NativeForm = {
+  /** Key suffix, "" for non-plural messages or e.g. "_one" / "_other" */
+  suffix: string;
+  text: string;
+};
+
+export type NativeMessage = {
+  forms: NativeForm[];
+  /** Argument that drives pluralization; i18next must receive it as `count` */
+  countArgument?: string;
+};
+
+const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+
+/** Map ICU formats to i18next's built-in formatters. */
+function nativeFormat(format: string): string {
+  if (format === "date" || format === "time") return "datetime";
+  return format;
+}
+
+function renderNodes(nodes: IcuNode[]): string | null {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "literal":
+        out += node.value;
+        break;
+      case "pound":
+        out += "{{count}}";
+        break;
+      case "argument":
+        out += node.format ? `{{${node.name}, ${nativeFormat(node.format)}}}` : `{{${node.name}}}`;
+        break;
+      default:
+        return null;
+    }
+  }
+  return out;
+}
+
+function pluralSuffix(selector: string): string | null {
+  if (selector === "=0") return "_zero";
+  return PLURAL_CATEGORIES.includes(selector) ? `_${selector}` : null;
+}
+
+/**
+ * Convert an ICU message to native i18next forms.
+ * Returns null when the message is invalid ICU or uses features native i18next can't express.
+ */
+export function toNativeMessage(source: string): NativeMessage | null {
+  let nodes: IcuNode[];
+  try {
+    nodes = parseIcu(source);
+  } catch {
+    return null;
+  }
+
+  const choices = nodes.filter(
+    (n): n is IcuChoice => n.type !== "literal" && n.type !== "pound" && n.type !== "argument"
+  );
+  if (choices.length === 0) {
+    const text = renderNodes(nodes);
+    return text === null ? null : { forms: [{ suffix: "", text }] };
+  }
+
+  const plural = choices[0];
+  if (choices.length > 1 || plural.type !== "plural" || plural.offset !== 0) return null;
+
+  const index = nodes.indexOf(plural);
+  const before = renderNodes(nodes.slice(0, index));
+  const after = renderNodes(nodes.slice(index + 1));
+  if (before === null || after === null) return null;
+
+  const forms: NativeForm[] = [];
+  for (const [selector, branch] of Object.entries(plural.options)) {
+    const suffix = pluralSuffix(selector);
+    const text = renderNodes(branch);
+    if (suffix === null || text === null || forms.some((f) => f.suffix === suffix)) return null;
+    forms.push({ suffix, text: before + text + after });
+  }
+  forms.sort((a, b) => a.suffix.localeCompare(b.suffix));
+
+  return { forms, countArgument: plural.name };
+}
+
+/**
+ * Expand an id/message pair into the dictionary entries for the given ICU mode.
+ * Unsupported messages are kept verbatim under the plain id.
+ */
+export function toDictionaryEntries(id: string, message: string, icuMode: IcuMode = "icu"): Array<[string, string]> {
+  if (icuMode !== "native") return [[id, message]];
+  const native = toNativeMessage(message);
+  if (!native) return [[id, message]];
+  return native.forms.map((f) => [id + f.suffix, f.text]);
+}
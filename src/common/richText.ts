@@ -0,0 +1,17 @@
+/**
+ * Return type of rich-text message functions.
+ *
+ * A message returning `RichText` (or tagged `@richText`) is rewritten to the props of
+ * react-i18next's `<Trans>` instead of a `t()` call, so its tags can be rendered as components:
+ *
+ *   <Trans {...Messages.terms()} components={{ link: <a href="/terms" /> }} />
+ *
+ * It extends `String` so the untransformed string literal still type-checks, but isn't
+ * assignable to `string`, which catches rendering it directly as text.
+ */
+export interface RichText extends String {
+  readonly i18nKey?: string;
+  readonly ns?: string;
+  readonly values?: Record<string, unknown>;
+  readonly defaults?: string;
+}
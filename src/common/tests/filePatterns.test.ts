@@ -0,0 +1,51 @@
+import path from "path";
+import { globToRegExp, matchesFilePatterns } from "../filePatterns";
+
+describe("globToRegExp", () => {
+  it("matches any number of directories with **", () => {
+    const regex = globToRegExp("src/**/*.messages.ts");
+
+    expect(regex.test("src/login.messages.ts")).toBe(true);
+    expect(regex.test("src/features/auth/login.messages.ts")).toBe(true);
+    expect(regex.test("lib/login.messages.ts")).toBe(false);
+    expect(regex.test("src/login.messages.tsx")).toBe(false);
+  });
+
+  it("keeps * and ? within a single path segment", () => {
+    expect(globToRegExp("src/*.ts").test("src/a/b.ts")).toBe(false);
+    expect(globToRegExp("src/?.ts").test("src/a.ts")).toBe(true);
+  });
+
+  it("supports brace alternatives and a leading ./", () => {
+    const regex = globToRegExp("./src/**/*.messages.{ts,tsx}");
+
+    expect(regex.test("src/a.messages.ts")).toBe(true);
+    expect(regex.test("src/a.messages.tsx")).toBe(true);
+    expect(regex.test("src/a.messages.js")).toBe(false);
+  });
+});
+
+describe("matchesFilePatterns", () => {
+  const root = path.resolve("/project");
+  const file = (relative: string) => path.join(root, relative);
+
+  it("matches included files that aren't excluded, relative to the root", () => {
+    const patterns = { include: ["src/**/*.messages.ts"], exclude: ["src/legacy/**"] };
+
+    expect(matchesFilePatterns(file("src/app.messages.ts"), patterns, root)).toBe(true);
+    expect(matchesFilePatterns(file("src/legacy/app.messages.ts"), patterns, root)).toBe(false);
+    expect(matchesFilePatterns(file("src/app.ts"), patterns, root)).toBe(false);
+  });
+
+  it("excludes node_modules, dist and build by default", () => {
+    const patterns = { include: ["**/*.messages.ts"] };
+
+    expect(matchesFilePatterns(file("lib/app.messages.ts"), patterns, root)).toBe(true);
+    expect(matchesFilePatterns(file("node_modules/pkg/app.messages.ts"), patterns, root)).toBe(false);
+    expect(matchesFilePatterns(file("dist/app.messages.ts"), patterns, root)).toBe(false);
+  });
+
+  it("matches nothing without include patterns", () => {
+    expect(matchesFilePatterns(file("src/app.messages.ts"), {}, root)).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { stableHash } from "../hash";
+import { stableHash, normalizeForHash, resolveHashNormalization } from "../hash";
 
 describe("Hash Functions", () => {
   describe("stableHash", () => {
@@ -297,4 +297,64 @@ describe("Hash Functions", () => {
       });
     });
   });
+
+  describe("normalizeForHash", () => {
+    it("normalizes whitespace and ICU punctuation but not quotes by default", () => {
+      expect(normalizeForHash("  It''s {count, plural,\r\n one {# item} }  ")).toBe("It''s{count,plural,one{# item}}");
+    });
+
+    it("keeps the keys of stableHash's normalize: true for quoted text", () => {
+      expect(stableHash("It''s {name}", { normalize: true })).not.toBe(stableHash("It's {name}", { normalize: true }));
+      expect(stableHash("''{name}''", { normalize: true })).not.toBe(stableHash("'{name}'", { normalize: true }));
+    });
+
+    it("applies only the requested kinds", () => {
+      const text = " It''s { name } ";
+
+      expect(normalizeForHash(text, { whitespace: true })).toBe("It''s { name }");
+      expect(normalizeForHash(text, { icuPunctuation: true })).toBe(" It''s{name}");
+      expect(normalizeForHash(text, { quotes: true })).toBe(" It's { name } ");
+      expect(normalizeForHash(text, {})).toBe(text);
+    });
+
+    it("resolves the hashNormalization config option", () => {
+      expect(resolveHashNormalization(true)).toEqual({ whitespace: true, icuPunctuation: true });
+      expect(resolveHashNormalization(false)).toEqual({});
+      expect(resolveHashNormalization(undefined)).toEqual({});
+      expect(resolveHashNormalization({ quotes: true })).toEqual({ quotes: true });
+    });
+  });
+
+  describe("algorithm", () => {
+    it("produces hashes of the requested length with each algorithm", () => {
+      for (const algorithm of ["sha1", "sha256", "fast"] as const) {
+        expect(stableHash("Hello world", { algorithm })).toMatch(/^[0-9a-f]{10}$/);
+        expect(stableHash("Hello world", { algorithm, hashLength: 40 })).toMatch(/^[0-9a-f]{40}$/);
+      }
+    });
+
+    it("defaults to sha1", () => {
+      expect(stableHash("Hello world")).toBe(stableHash("Hello world", { algorithm: "sha1" }));
+      expect(stableHash("Hello world")).toBe("7b502c3a1f");
+    });
+
+    it("produces different keys per algorithm", () => {
+      const sha256 = stableHash("Hello world", { algorithm: "sha256" });
+      const fast = stableHash("Hello world", { algorithm: "fast" });
+
+      expect(sha256).toBe("64ec88ca00");
+      expect(fast).not.toBe(sha256);
+      expect(fast).not.toBe(stableHash("Hello world"));
+    });
+
+    it("keeps fast hashes stable and sensitive to context", () => {
+      const hash = stableHash("Hello world", { algorithm: "fast", context: "greeting" });
+
+      expect(stableHash("Hello world", { algorithm: "fast", context: "greeting" })).toBe(hash);
+      expect(stableHash("Hello world", { algorithm: "fast" })).not.toBe(hash);
+      expect(stableHash("Hello world", { algorithm: "fast", hashLength: 20 }).slice(0, 10)).toBe(
+        stableHash("Hello world", { algorithm: "fast" })
+      );
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { i18nStore, Entry } from "../i18nStore";
+import { i18nStore, I18nStore, Entry, formatKeyCollision } from "../i18nStore";
 
 describe("i18nStore", () => {
   beforeEach(() => {
@@ -46,7 +46,7 @@ describe("i18nStore", () => {
     // Add first entry
     i18nStore.add({
       id: "same-hash",
-      source: "Original message",
+      source: "Message",
       translationContext: "context-1",
       ref: { file: "file1.ts", line: 10, column: 5 },
       comments: ["First comment"],
@@ -55,7 +55,7 @@ describe("i18nStore", () => {
     // Add second entry with same ID
     i18nStore.add({
       id: "same-hash",
-      source: "Updated message",
+      source: "Message",
       translationContext: "context-2",
       ref: { file: "file2.ts", line: 20, column: 10 },
       comments: ["Second comment"],
@@ -66,7 +66,6 @@ describe("i18nStore", () => {
 
     const entry = entries[0];
     expect(entry.id).toBe("same-hash");
-    expect(entry.source).toBe("Updated message"); // Latest source
     expect(entry.translationContext).toBe("context-2"); // Latest context
 
     // Should have both references
@@ -80,6 +79,205 @@ describe("i18nStore", () => {
     expect(entry.extractedComments.size).toBe(2);
   });
 
+  it("should keep the same message for colliding IDs regardless of order", () => {
+    const original = { id: "same-hash", source: "Original message", ref: { file: "file1.ts", line: 10, column: 5 } };
+    const updated = { id: "same-hash", source: "Updated message", ref: { file: "file2.ts", line: 20, column: 10 } };
+
+    i18nStore.add(original);
+    i18nStore.add(updated);
+    const first = Array.from(i18nStore.all().values());
+
+    i18nStore.clear();
+    i18nStore.add(updated);
+    i18nStore.add(original);
+    const second = Array.from(i18nStore.all().values());
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(1);
+    expect(first[0].source).toBe("Original message");
+    expect(Array.from(first[0].refs)).toEqual(["file1.ts:10:5"]);
+  });
+
+  it("merges variants of one message that share a normalized key", () => {
+    const spaced = {
+      id: "same-hash",
+      source: "Hello,   {name}",
+      keySource: "Hello,{name}",
+      ref: { file: "file1.ts", line: 10, column: 5 },
+      comments: ["Greeting"],
+    };
+    const wrapped = {
+      id: "same-hash",
+      source: "Hello,\n{name}",
+      keySource: "Hello,{name}",
+      ref: { file: "file2.ts", line: 20, column: 10 },
+      comments: ["Shown on login"],
+    };
+
+    i18nStore.add(spaced);
+    i18nStore.add(wrapped);
+    const first = Array.from(i18nStore.all().values());
+
+    i18nStore.clear();
+    i18nStore.add(wrapped);
+    i18nStore.add(spaced);
+    const second = Array.from(i18nStore.all().values());
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(1);
+    expect(first[0].source).toBe("Hello,\n{name}");
+    expect(Array.from(first[0].refs).sort()).toEqual(["file1.ts:10:5", "file2.ts:20:10"]);
+    expect(Array.from(first[0].extractedComments).sort()).toEqual(["Greeting", "Shown on login"]);
+  });
+
+  describe("claimKey", () => {
+    const ref = (file: string) => ({ file, line: 1, column: 1 });
+
+    it("gives a colliding key to the message that sorts first", () => {
+      expect(i18nStore.claimKey("key-1", "Message 81", undefined, ref("a.ts"))).toBe(true);
+      expect(i18nStore.claimKey("key-1", "Message 276", undefined, ref("b.ts"))).toBe(true);
+      expect(i18nStore.claimKey("key-1", "Message 81", undefined, ref("a.ts"))).toBe(false);
+
+      expect(i18nStore.collisions()).toEqual([
+        {
+          id: "key-1",
+          messages: [
+            { source: "Message 276", translationContext: undefined, ref: "b.ts:1:1" },
+            { source: "Message 81", translationContext: undefined, ref: "a.ts:1:1" },
+          ],
+          // "Message 81" was given the key before "Message 276" claimed it
+          stale: true,
+          readable: false,
+        },
+      ]);
+    });
+
+    it("remembers collisions across builds so every file order resolves them the same way", () => {
+      i18nStore.claimKey("key-2", "Message 81", undefined, ref("a.ts"));
+      i18nStore.claimKey("key-2", "Message 276", undefined, ref("b.ts"));
+      i18nStore.clear();
+
+      expect(i18nStore.claimKey("key-2", "Message 81", undefined, ref("a.ts"))).toBe(false);
+      expect(i18nStore.claimKey("key-2", "Message 276", undefined, ref("b.ts"))).toBe(true);
+      expect(i18nStore.collisions()).toEqual([expect.objectContaining({ id: "key-2", stale: false })]);
+    });
+
+    it("forgets messages that the last build didn't see", () => {
+      i18nStore.claimKey("key-4", "Message 81", undefined, ref("a.ts"));
+      i18nStore.claimKey("key-4", "Message 276", undefined, ref("b.ts"));
+      i18nStore.clear();
+
+      // "Message 276" was deleted; it still owns the key in the build that finds out
+      expect(i18nStore.claimKey("key-4", "Message 81", undefined, ref("a.ts"))).toBe(false);
+      i18nStore.clear();
+
+      expect(i18nStore.claimKey("key-4", "Message 81", undefined, ref("a.ts"))).toBe(true);
+      expect(i18nStore.collisions()).toEqual([]);
+    });
+
+    it("treats the same message in several places as a single claim", () => {
+      expect(i18nStore.claimKey("key-3", "Same", "ctx", ref("a.ts"))).toBe(true);
+      expect(i18nStore.claimKey("key-3", "Same", "ctx", ref("b.ts"))).toBe(true);
+      expect(i18nStore.collisions()).toEqual([]);
+    });
+
+    it("describes the collision with both locations", () => {
+      i18nStore.claimKey("key-4", "Message 276", undefined, ref("b.ts"));
+      i18nStore.claimKey("key-4", "Message 81", undefined, ref("a.ts"));
+
+      expect(formatKeyCollision(i18nStore.collisions()[0])).toBe(
+        'Key "key-4" is generated by different messages: "Message 276" (b.ts:1:1), "Message 81" (a.ts:1:1). ' +
+          '"Message 276" keeps the key and "Message 81" uses a derived key.'
+      );
+    });
+
+    it("reports collisions of readable keys, which can't be derived", () => {
+      i18nStore.claimKey("Messages.title", "Cart", undefined, ref("cart.ts"), true);
+      i18nStore.claimKey("Messages.title", "Orders", undefined, ref("orders.ts"), true);
+
+      const [collision] = i18nStore.collisions();
+      expect(collision).toEqual(expect.objectContaining({ readable: true, stale: false }));
+      expect(collision.messages).toEqual([
+        { source: "Cart", translationContext: undefined, ref: "cart.ts:1:1" },
+        { source: "Orders", translationContext: undefined, ref: "orders.ts:1:1" },
+      ]);
+      expect(formatKeyCollision(collision)).toBe(
+        'Key "Messages.title" is generated by different messages: "Cart" (cart.ts:1:1), "Orders" (orders.ts:1:1). ' +
+          "Rename one of the messages' objects, or give one of the messages a @key tag."
+      );
+    });
+  });
+
+  describe("snapshots", () => {
+    const ref = (file: string) => ({ file, line: 1, column: 1 });
+
+    /** A store filled in a worker, sent back as JSON */
+    function workerSnapshot(fill: (store: I18nStore) => void) {
+      const store = new I18nStore();
+      fill(store);
+      return JSON.parse(JSON.stringify(store));
+    }
+
+    it("merges the entries of another store, including refs, comments and parameter metadata", () => {
+      i18nStore.add({ id: "greet", source: "Hello {name}", ref: ref("a.ts"), comments: ["On the home page"] });
+      const parameterMetadata = {
+        parameterNames: ["name"],
+        parameterTypes: ["string"],
+        parameterJSDoc: { name: "The user's name" },
+      };
+
+      i18nStore.merge(
+        workerSnapshot((store) => {
+          store.add({
+            id: "greet",
+            source: "Hello {name}",
+            ref: ref("b.ts"),
+            comments: ["Greeting"],
+            parameterMetadata,
+          });
+          store.add({ id: "bye", source: "Bye", translationContext: "footer", namespace: "common", ref: ref("c.ts") });
+        })
+      );
+
+      expect(i18nStore.all().get("greet")).toEqual({
+        id: "greet",
+        source: "Hello {name}",
+        refs: new Set(["a.ts:1:1", "b.ts:1:1"]),
+        extractedComments: new Set(["On the home page", "Greeting"]),
+        parameterMetadata,
+      });
+      expect(i18nStore.all().get("common:bye")).toMatchObject({
+        id: "bye",
+        translationContext: "footer",
+        namespace: "common",
+        refs: new Set(["c.ts:1:1"]),
+      });
+    });
+
+    it("reports key collisions between the merged stores", () => {
+      i18nStore.claimKey("key-5", "Message 81", undefined, ref("a.ts"));
+
+      i18nStore.merge(workerSnapshot((store) => store.claimKey("key-5", "Message 276", undefined, ref("b.ts"))));
+
+      // Each store gave the key to its own message, so "Message 81" was emitted with the wrong key
+      expect(i18nStore.collisions()).toEqual([expect.objectContaining({ id: "key-5", stale: true })]);
+    });
+
+    it("tells which merged snapshots were given a key that another message keeps", () => {
+      const loser = workerSnapshot((store) => store.claimKey("key-5", "Message 81", undefined, ref("a.ts")));
+      const owner = workerSnapshot((store) => store.claimKey("key-5", "Message 276", undefined, ref("b.ts")));
+      i18nStore.merge(loser);
+      i18nStore.merge(owner);
+
+      expect(i18nStore.hasStaleKeys(loser)).toBe(true);
+      expect(i18nStore.hasStaleKeys(owner)).toBe(false);
+    });
+
+    it("rejects data that isn't a snapshot", () => {
+      expect(() => i18nStore.merge({ entries: [] } as any)).toThrow("Invalid i18nStore snapshot");
+    });
+  });
+
   it("should handle translation context updates", () => {
     // Add entry without context
     i18nStore.add({
@@ -0,0 +1,65 @@
+import { parseIcu, renameIcuArguments, IcuSyntaxError } from "../icu";
+
+describe("parseIcu", () => {
+  it("parses literals and simple arguments with their name offsets", () => {
+    const nodes = parseIcu("Hello {name}!");
+
+    expect(nodes).toEqual([
+      { type: "literal", value: "Hello " },
+      { type: "argument", name: "name", nameStart: 7, nameEnd: 11 },
+      { type: "literal", value: "!" },
+    ]);
+  });
+
+  it("parses formatted arguments with an optional style", () => {
+    const [price, date] = parseIcu("{price, number, ::currency/EUR}{when, date}").filter((n) => n.type === "argument");
+
+    expect(price).toMatchObject({ name: "price", format: "number", style: "::currency/EUR" });
+    expect(date).toMatchObject({ name: "when", format: "date" });
+    expect(date).not.toHaveProperty("style");
+  });
+
+  it("parses plural arguments with offsets, exact matches and # placeholders", () => {
+    const [plural] = parseIcu("{count, plural, offset:1 =0 {none} one {# item} other {# items}}");
+
+    expect(plural).toMatchObject({ type: "plural", name: "count", offset: 1 });
+    expect(plural.type === "plural" && Object.keys(plural.options)).toEqual(["=0", "one", "other"]);
+    expect(plural.type === "plural" && plural.options.one).toEqual([
+      { type: "pound" },
+      { type: "literal", value: " item" },
+    ]);
+  });
+
+  it("treats # as text outside of plural branches", () => {
+    expect(parseIcu("Item #1")).toEqual([{ type: "literal", value: "Item #1" }]);
+  });
+
+  it("unescapes apostrophe-quoted syntax characters", () => {
+    expect(parseIcu("It''s '{literal}' text")).toEqual([{ type: "literal", value: "It's {literal} text" }]);
+  });
+
+  it.each([
+    ["Hello {name", "Unclosed"],
+    ["Hello }", "Unmatched"],
+    ["{}", "argument name"],
+    ["{count, plural, one {x}}", '"other"'],
+    ["{g, select, a {x} a {y} other {z}}", "Duplicate"],
+  ])("rejects %p", (message, reason) => {
+    expect(() => parseIcu(message)).toThrow(IcuSyntaxError);
+    expect(() => parseIcu(message)).toThrow(reason);
+  });
+});
+
+describe("renameIcuArguments", () => {
+  it("renames arguments everywhere, including plural names and nested branches", () => {
+    const renamed = renameIcuArguments("{ n, plural, one {# {who}} other {{who}: #}} '{n}'", (name) =>
+      name === "n" ? "0" : name === "who" ? "1" : undefined
+    );
+
+    expect(renamed).toBe("{ 0, plural, one {# {1}} other {{1}: #}} '{n}'");
+  });
+
+  it("throws on invalid messages", () => {
+    expect(() => renameIcuArguments("{n", () => "0")).toThrow(IcuSyntaxError);
+  });
+});
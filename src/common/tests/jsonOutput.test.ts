@@ -0,0 +1,82 @@
+import { buildJsonOutputs, unsplitNamespaces, localizeOutputPath } from "../jsonOutput";
+import type { Entry } from "../i18nStore";
+
+function entry(id: string, source: string, namespace?: string): Entry {
+  return { id, source, namespace, refs: new Set(), extractedComments: new Set() };
+}
+
+describe("buildJsonOutputs", () => {
+  const entries = [entry("b", "Pay", "checkout"), entry("a", "Hello"), entry("c", "Cancel", "checkout")];
+
+  it("emits a single sorted file when the path has no {{ns}} placeholder", () => {
+    const outputs = buildJsonOutputs(entries, { jsonOutputPath: "locales/en.json", indentSpaces: 0 });
+
+    expect(outputs).toEqual([{ fileName: "locales/en.json", content: '{"a":"Hello","b":"Pay","c":"Cancel"}' }]);
+  });
+
+  it("emits one file per namespace when the path has a {{ns}} placeholder", () => {
+    const outputs = buildJsonOutputs(entries, { jsonOutputPath: "locales/en/{{ns}}.json", indentSpaces: 0 });
+
+    expect(outputs).toEqual([
+      { fileName: "locales/en/checkout.json", content: '{"b":"Pay","c":"Cancel"}', namespace: "checkout" },
+      { fileName: "locales/en/translation.json", content: '{"a":"Hello"}', namespace: "translation" },
+    ]);
+  });
+
+  it("puts entries without a namespace into the configured default namespace", () => {
+    const outputs = buildJsonOutputs(entries, {
+      jsonOutputPath: "locales/en/{{ns}}.json",
+      indentSpaces: 0,
+      defaultNamespace: "common",
+    });
+
+    expect(outputs.map((o) => o.fileName)).toEqual(["locales/en/checkout.json", "locales/en/common.json"]);
+  });
+
+  it("expands plural messages into suffixed keys in native icuMode", () => {
+    const outputs = buildJsonOutputs(
+      [entry("a", "{n, plural, one {# file} other {# files}}"), entry("b", "Hi {name}")],
+      { jsonOutputPath: "en.json", indentSpaces: 0, icuMode: "native" }
+    );
+
+    expect(outputs[0].content).toBe('{"a_one":"{{count}} file","a_other":"{{count}} files","b":"Hi {{name}}"}');
+  });
+
+  it("wraps each file under topLevelKey", () => {
+    const outputs = buildJsonOutputs([entry("a", "Hello", "common")], {
+      jsonOutputPath: "{{ns}}.json",
+      indentSpaces: 0,
+      topLevelKey: "messages",
+    });
+
+    expect(outputs).toEqual([{ fileName: "common.json", content: '{"messages":{"a":"Hello"}}', namespace: "common" }]);
+  });
+
+  it("emits an empty default namespace file when there are no entries", () => {
+    const outputs = buildJsonOutputs([], { jsonOutputPath: "locales/en/{{ns}}.json", indentSpaces: 0 });
+
+    expect(outputs).toEqual([{ fileName: "locales/en/translation.json", content: "{}", namespace: "translation" }]);
+  });
+
+  it("normalizes backslashes in the output path", () => {
+    const outputs = buildJsonOutputs([], { jsonOutputPath: "locales\\en.json", indentSpaces: 0 });
+
+    expect(outputs[0].fileName).toBe("locales/en.json");
+  });
+});
+
+describe("unsplitNamespaces", () => {
+  it("lists namespaces that would be merged into a single file", () => {
+    const entries = [entry("a", "A", "checkout"), entry("b", "B"), entry("c", "C", "auth")];
+
+    expect(unsplitNamespaces(entries, "locales/en.json")).toEqual(["auth", "checkout"]);
+    expect(unsplitNamespaces(entries, "locales/en/{{ns}}.json")).toEqual([]);
+  });
+});
+
+describe("localizeOutputPath", () => {
+  it("replaces every {{lng}} placeholder and keeps {{ns}}", () => {
+    expect(localizeOutputPath("locales/{{lng}}/{{ns}}.{{lng}}.json", "de")).toBe("locales/de/{{ns}}.de.json");
+    expect(localizeOutputPath("locales/en.json", "de")).toBe("locales/en.json");
+  });
+});
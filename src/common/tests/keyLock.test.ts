@@ -0,0 +1,113 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { readKeyLock, writeKeyLock, findLockedKey, updateKeyLock, lockedKeysBySource, lockSourceId } from "../keyLock";
+import type { KeyLock } from "../keyLock";
+
+describe("keyLock", () => {
+  const lock: KeyLock = {
+    version: 1,
+    messages: {
+      "src/a.messages.ts#A.title": { key: "k1", source: "Recieve" },
+      "src/a.messages.ts#A.save": { key: "k2", source: "Save" },
+      "src/b.messages.ts#B.save": { key: "k2", source: "Save" },
+    },
+  };
+
+  describe("readKeyLock / writeKeyLock", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "key-lock-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("reads a missing file as an empty lock", () => {
+      expect(readKeyLock(path.join(dir, "keys.lock.json"))).toEqual({ version: 1, messages: {} });
+    });
+
+    it("writes messages sorted by identity and reads them back", () => {
+      const file = path.join(dir, "i18n", "keys.lock.json");
+
+      writeKeyLock(file, lock);
+
+      const content = fs.readFileSync(file, "utf8");
+      expect(Object.keys(JSON.parse(content).messages)).toEqual([
+        "src/a.messages.ts#A.save",
+        "src/a.messages.ts#A.title",
+        "src/b.messages.ts#B.save",
+      ]);
+      expect(content.endsWith("}\n")).toBe(true);
+      expect(readKeyLock(file)).toEqual(lock);
+    });
+
+    it("rejects files that aren't key locks", () => {
+      const file = path.join(dir, "keys.lock.json");
+      fs.writeFileSync(file, '{ "messages": [] }');
+      expect(() => readKeyLock(file)).toThrow(`Invalid key lock file ${file}: expected { "version": 1`);
+
+      fs.writeFileSync(file, "{");
+      expect(() => readKeyLock(file)).toThrow(`Invalid key lock file ${file}:`);
+    });
+  });
+
+  describe("findLockedKey", () => {
+    it("keeps the key of a locked message when its text changes", () => {
+      expect(findLockedKey(lock, "src/a.messages.ts#A.title", "Recieve", undefined)).toBe("k1");
+      expect(findLockedKey(lock, "src/a.messages.ts#A.title", "Receive", undefined)).toBe("k1");
+      expect(findLockedKey(lock, "src/a.messages.ts#A.title", "Receive", "button")).toBe("k1");
+    });
+
+    it("returns undefined for messages that aren't locked", () => {
+      expect(findLockedKey(lock, "src/a.messages.ts#A.other", "Recieve", undefined)).toBeUndefined();
+    });
+
+    it("doesn't keep a key shared with other locked messages when the text changes", () => {
+      expect(findLockedKey(lock, "src/a.messages.ts#A.save", "Save", undefined)).toBe("k2");
+      expect(findLockedKey(lock, "src/a.messages.ts#A.save", "Save all", undefined)).toBeUndefined();
+    });
+  });
+
+  describe("updateKeyLock", () => {
+    it("adds new messages, drops removed ones and reports changed ones", () => {
+      const { lock: updated, changes } = updateKeyLock(lock, {
+        "src/a.messages.ts#A.title": { key: "k1", source: "Receive" },
+        "src/a.messages.ts#A.save": { key: "k2", source: "Save" },
+        "src/c.messages.ts#C.new": { key: "k3", source: "New" },
+      });
+
+      expect(Object.keys(updated.messages).sort()).toEqual([
+        "src/a.messages.ts#A.save",
+        "src/a.messages.ts#A.title",
+        "src/c.messages.ts#C.new",
+      ]);
+      expect(changes).toEqual([
+        {
+          identity: "src/a.messages.ts#A.title",
+          key: "k1",
+          previous: { key: "k1", source: "Recieve" },
+          current: { key: "k1", source: "Receive" },
+        },
+      ]);
+    });
+
+    it("doesn't report messages that got a new key", () => {
+      const { changes } = updateKeyLock(lock, {
+        "src/a.messages.ts#A.save": { key: "k4", source: "Save all" },
+      });
+
+      expect(changes).toEqual([]);
+    });
+  });
+
+  it("lists the locked keys of each text and context", () => {
+    const keys = lockedKeysBySource(lock);
+
+    expect(keys.get(lockSourceId("Save", undefined))).toEqual(["k2"]);
+    expect(keys.get(lockSourceId("Recieve", undefined))).toEqual(["k1"]);
+    expect(keys.get(lockSourceId("Recieve", "button"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { toNativeMessage, toDictionaryEntries } from "../nativeFormat";
+
+describe("toNativeMessage", () => {
+  it("converts simple and formatted arguments to i18next interpolation", () => {
+    expect(toNativeMessage("Hi {name}, you owe {total, number} since {since, date}")).toEqual({
+      forms: [{ suffix: "", text: "Hi {{name}}, you owe {{total, number}} since {{since, datetime}}" }],
+    });
+  });
+
+  it("splits a plural into suffix forms and renders # as {{count}}", () => {
+    expect(toNativeMessage("You have {n, plural, =0 {no items} one {# item} other {# items}} left")).toEqual({
+      countArgument: "n",
+      forms: [
+        { suffix: "_one", text: "You have {{count}} item left" },
+        { suffix: "_other", text: "You have {{count}} items left" },
+        { suffix: "_zero", text: "You have no items left" },
+      ],
+    });
+  });
+
+  it.each([
+    ["select", "{g, select, male {He} other {They}}"],
+    ["selectordinal", "{n, selectordinal, one {#st} other {#th}}"],
+    ["plural offsets", "{n, plural, offset:1 one {#} other {#}}"],
+    ["exact matches other than =0", "{n, plural, =1 {one} other {#}}"],
+    ["multiple plurals", "{a, plural, other {#}} {b, plural, other {#}}"],
+    ["invalid ICU", "Hello {name"],
+  ])("returns null for %s", (_, message) => {
+    expect(toNativeMessage(message)).toBeNull();
+  });
+});
+
+describe("toDictionaryEntries", () => {
+  const plural = "{count, plural, one {# file} other {# files}}";
+
+  it("keeps messages verbatim in icu mode", () => {
+    expect(toDictionaryEntries("abc", plural)).toEqual([["abc", plural]]);
+  });
+
+  it("expands plural messages into suffixed keys in native mode", () => {
+    expect(toDictionaryEntries("abc", plural, "native")).toEqual([
+      ["abc_one", "{{count}} file"],
+      ["abc_other", "{{count}} files"],
+    ]);
+  });
+
+  it("keeps unsupported messages verbatim in native mode", () => {
+    const select = "{g, select, other {They}}";
+    expect(toDictionaryEntries("abc", select, "native")).toEqual([["abc", select]]);
+  });
+});
@@ -1,7 +1,32 @@
 import ts from "typescript";
-import { stableHash } from "../hash";
-import { i18nStore, toRelPosix, ParameterMetadata } from "../i18nStore";
+import { computeKey, deriveKey, isPathBasedStrategy } from "../keyStrategy";
+import { normalizeForHash } from "../hash";
+import type { HashNormalization } from "../hash";
+import type { KeyStrategy } from "../keyStrategy";
+import { i18nStore, toRelPosix, ParameterMetadata, PoRef } from "../i18nStore";
+import type { I18nStore, MessageRecord } from "../i18nStore";
 import { stringPool } from "../stringPool";
+import type { ConstantResolver } from "./program";
+
+/** A function whose returned string is a translatable message. */
+export type MessageFunction =
+  | ts.ArrowFunction
+  | ts.FunctionExpression
+  | ts.MethodDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.FunctionDeclaration;
+
+/**
+ * The node that carries a message's JSDoc: the object or class property, method or getter,
+ * the exported function declaration, or the variable statement of an exported `const` arrow function.
+ */
+export type MessageContainer =
+  | ts.PropertyAssignment
+  | ts.PropertyDeclaration
+  | ts.MethodDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.FunctionDeclaration
+  | ts.VariableStatement;
 
 /** Best-effort check for a `@noTranslate` jsdoc/tsdoc tag on this node. */
 function hasNoTranslateTag(node: ts.Node, sf: ts.SourceFile): boolean {
@@ -74,17 +99,132 @@ function getLeadingComments(sf: ts.SourceFile, node: ts.Node): string[] {
   return out.filter(Boolean);
 }
 
+/** A single interpolation value contributed by a message function's parameter list. */
+export type MessageParameter = {
+  /** Interpolation key used in the ICU message and the i18next.t options */
+  name: string;
+  /** Local identifier that holds the value inside the message function */
+  binding: string;
+  /** Source text of the value's type, or "unknown" */
+  type: string;
+  /** Source text of the default value, if one is declared */
+  defaultValue?: string;
+  /** Object rest element (`...rest`) whose remaining properties are spread into the values */
+  isRest: boolean;
+};
+
+/** Source text of a property name usable as an interpolation key. */
+function propertyNameText(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return undefined;
+}
+
+/** Best-effort type text for a property of an object binding pattern. */
+function memberTypeText(parentType: ts.TypeNode | undefined, key: string, sf: ts.SourceFile): string {
+  if (!parentType) return "unknown";
+  if (ts.isTypeLiteralNode(parentType)) {
+    for (const m of parentType.members) {
+      if (ts.isPropertySignature(m) && m.name && propertyNameText(m.name) === key) {
+        return m.type ? m.type.getText(sf) : "unknown";
+      }
+    }
+    return "unknown";
+  }
+  return `${parentType.getText(sf)}["${key}"]`;
+}
+
+/** Best-effort type text for an element of an array binding pattern. */
+function elementTypeText(parentType: ts.TypeNode | undefined, index: number, sf: ts.SourceFile): string {
+  if (!parentType) return "unknown";
+  if (ts.isArrayTypeNode(parentType)) return parentType.elementType.getText(sf);
+  if (ts.isTupleTypeNode(parentType)) {
+    const el = parentType.elements[index];
+    if (!el) return "unknown";
+    return (ts.isNamedTupleMember(el) ? el.type : el).getText(sf);
+  }
+  return `${parentType.getText(sf)}[${index}]`;
+}
+
+function flattenBindingPattern(
+  pattern: ts.BindingPattern,
+  parentType: ts.TypeNode | undefined,
+  sf: ts.SourceFile,
+  out: MessageParameter[]
+): void {
+  pattern.elements.forEach((el, index) => {
+    if (ts.isOmittedExpression(el)) return;
+
+    const isObject = ts.isObjectBindingPattern(pattern);
+    // Interpolation key: the source property for `{ user: u }`, otherwise the bound name
+    const propertyKey = el.propertyName ? propertyNameText(el.propertyName) : undefined;
+
+    if (ts.isIdentifier(el.name)) {
+      const binding = el.name.text;
+      if (isObject && el.dotDotDotToken) {
+        out.push({ name: binding, binding, type: "unknown", isRest: true });
+        return;
+      }
+      const name = propertyKey ?? binding;
+      out.push({
+        name,
+        binding,
+        type: isObject ? memberTypeText(parentType, name, sf) : elementTypeText(parentType, index, sf),
+        defaultValue: el.initializer?.getText(sf),
+        isRest: false,
+      });
+      return;
+    }
+
+    // Nested pattern: the nested fields become values of their own
+    let nestedType: ts.TypeNode | undefined;
+    if (parentType && isObject && propertyKey !== undefined && ts.isTypeLiteralNode(parentType)) {
+      const member = parentType.members.find(
+        (m): m is ts.PropertySignature => ts.isPropertySignature(m) && propertyNameText(m.name) === propertyKey
+      );
+      nestedType = member?.type;
+    } else if (parentType && !isObject && ts.isTupleTypeNode(parentType)) {
+      const tupleEl = parentType.elements[index];
+      nestedType = tupleEl && ts.isNamedTupleMember(tupleEl) ? tupleEl.type : tupleEl;
+    }
+    flattenBindingPattern(el.name, nestedType, sf, out);
+  });
+}
+
+/**
+ * Flatten a message function's parameters into interpolation values.
+ * Identifier parameters map one-to-one; destructured parameters contribute one value per bound field.
+ */
+export function getMessageParameters(fn: MessageFunction, sf: ts.SourceFile): MessageParameter[] {
+  const out: MessageParameter[] = [];
+  for (const param of fn.parameters) {
+    if (ts.isIdentifier(param.name)) {
+      out.push({
+        name: param.name.text,
+        binding: param.name.text,
+        type: getTypeString(param, sf),
+        defaultValue: param.initializer?.getText(sf),
+        isRest: false,
+      });
+    } else {
+      flattenBindingPattern(param.name, param.type, sf, out);
+    }
+  }
+  return out;
+}
+
 /** Extract JSDoc parameter information from function parameters */
 function extractParameterMetadata(
-  fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration,
+  fn: MessageFunction,
+  containerNode: MessageContainer,
   sf: ts.SourceFile
 ): ParameterMetadata | undefined {
-  const params = fn.parameters;
+  const params = getMessageParameters(fn, sf).filter((p) => !p.isRest);
   if (params.length === 0) return undefined;
 
   const parameterNames: string[] = [];
   const parameterTypes: string[] = [];
   const parameterJSDoc: { [paramName: string]: string } = {};
+  const parameterDefaults: { [paramName: string]: string } = {};
 
   const text = sf.getFullText();
   let ranges: readonly ts.CommentRange[] = [];
@@ -92,8 +232,8 @@ function extractParameterMetadata(
   const functionRanges = ts.getLeadingCommentRanges?.(text, fn.getFullStart()) || [];
   ranges = [...functionRanges];
 
-  if (!ts.isMethodDeclaration(fn) && fn.parent && ts.isPropertyAssignment(fn.parent)) {
-    const parentRanges = ts.getLeadingCommentRanges?.(text, fn.parent.getFullStart()) || [];
+  if (containerNode !== fn) {
+    const parentRanges = ts.getLeadingCommentRanges?.(text, containerNode.getFullStart()) || [];
     for (const pRange of parentRanges) {
       const overlaps = functionRanges.some(
         (fRange) =>
@@ -112,9 +252,10 @@ function extractParameterMetadata(
       const lines = raw.split("\n");
       for (const line of lines) {
         if (line.includes("@param")) {
-          const match = line.match(/@param\s+(\w+)\s+(.+)/);
+          // `@param props.count ...` documents the destructured field `count`
+          const match = line.match(/@param\s+([\w.]+)\s+(.+)/);
           if (match) {
-            const paramName = match[1];
+            const paramName = match[1].split(".").pop()!;
             let paramDescription = match[2];
             paramDescription = paramDescription
               .replace(/\*\/\s*$/, "")
@@ -130,28 +271,30 @@ function extractParameterMetadata(
   }
 
   for (const param of params) {
-    if (ts.isIdentifier(param.name)) {
-      const paramName = param.name.text;
-      parameterNames.push(paramName);
-      const paramType = getTypeString(param, sf);
-      parameterTypes.push(paramType);
+    parameterNames.push(param.name);
+    parameterTypes.push(param.type);
+    if (param.defaultValue !== undefined) {
+      parameterDefaults[param.name] = param.defaultValue;
     }
   }
 
-  return parameterNames.length > 0 ? { parameterNames, parameterTypes, parameterJSDoc } : undefined;
+  return {
+    parameterNames,
+    parameterTypes,
+    parameterJSDoc,
+    ...(Object.keys(parameterDefaults).length > 0 ? { parameterDefaults } : {}),
+  };
 }
 
-/** Extract @translationContext from JSDoc comments */
-export function extractTranslationContext(
-  containerNode: ts.PropertyAssignment | ts.MethodDeclaration,
-  fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration,
+/** Leading comment ranges of the message function and its container, without duplicates. */
+function getMessageCommentRanges(
+  containerNode: MessageContainer,
+  fn: MessageFunction,
   sf: ts.SourceFile
-): string | undefined {
+): ts.CommentRange[] {
   const text = sf.getFullText();
-  let ranges: readonly ts.CommentRange[] = [];
-
   const functionRanges = ts.getLeadingCommentRanges?.(text, fn.getFullStart()) || [];
-  ranges = [...functionRanges];
+  let ranges: ts.CommentRange[] = [...functionRanges];
 
   const containerRanges = ts.getLeadingCommentRanges?.(text, containerNode.getFullStart()) || [];
   for (const cRange of containerRanges) {
@@ -163,32 +306,203 @@ export function extractTranslationContext(
       ranges = [...ranges, cRange];
     }
   }
+  return ranges;
+}
 
-  for (const r of ranges) {
-    const raw = text.slice(r.pos, r.end);
-    if (raw.startsWith("/**")) {
-      const lines = raw.split("\n");
-      for (const line of lines) {
-        if (line.includes("@translationContext")) {
-          const match = line.match(/@translationContext\s+(.+)/);
-          if (match) {
-            let context = match[1];
-            context = context
-              .replace(/\*\/\s*$/, "")
-              .replace(/\*\s*$/, "")
-              .trim();
-            if (context) {
-              return context;
-            }
-          }
-        }
-      }
+/** Where the translation context of messages without `@translationContext` comes from. */
+export type AutoContext = "none" | "file" | "object" | "file+object";
+
+/**
+ * Extract @translationContext from the message's JSDoc, an enclosing object's JSDoc or the file
+ * header, or derive a context from where the message is declared when `autoContext` is set.
+ */
+export function extractTranslationContext(
+  containerNode: MessageContainer,
+  fn: MessageFunction,
+  sf: ts.SourceFile,
+  autoContext: AutoContext = "none",
+  rootDir?: string
+): string | undefined {
+  const text = sf.getFullText();
+  for (const r of getMessageCommentRanges(containerNode, fn, sf)) {
+    const context = readJSDocTagText(text.slice(r.pos, r.end), "translationContext");
+    if (context) return context;
+  }
+
+  // A context set on an enclosing object or in the file header applies to every message inside
+  const inherited = findInheritedTagValue(containerNode.parent, sf, "translationContext", readJSDocTagText);
+  if (inherited) return inherited;
+
+  return deriveTranslationContext(containerNode, fn, sf, autoContext, rootDir);
+}
+
+/**
+ * Context derived from the message's file relative to `rootDir`, without extension ("src/cart.messages"),
+ * its enclosing object ("CartMessages.summary"), or both joined with ":".
+ */
+function deriveTranslationContext(
+  containerNode: MessageContainer,
+  fn: MessageFunction,
+  sf: ts.SourceFile,
+  autoContext: AutoContext,
+  rootDir?: string
+): string | undefined {
+  const parts: string[] = [];
+  if (autoContext === "file" || autoContext === "file+object") {
+    parts.push(toRelPosix(sf.fileName, rootDir).replace(/\.[cm]?[jt]sx?$/, ""));
+  }
+  if (autoContext === "object" || autoContext === "file+object") {
+    // Top-level functions and default exports have no enclosing object
+    const messagePath = getMessagePath(containerNode, fn);
+    const lastDot = messagePath ? messagePath.lastIndexOf(".") : -1;
+    if (lastDot > 0) parts.push(messagePath!.slice(0, lastDot));
+  }
+  return parts.length > 0 ? parts.join(":") : undefined;
+}
+
+/** Read the value of a `@tag value` line from a single JSDoc comment. */
+function readJSDocTagValue(raw: string, tag: string): string | undefined {
+  if (!raw.startsWith("/**")) return undefined;
+  const match = raw.match(new RegExp(`@${tag}\\s+([^\\s*]+)`));
+  return match ? match[1] : undefined;
+}
+
+/** Read the rest of a `@tag some text` line from a single JSDoc comment. */
+function readJSDocTagText(raw: string, tag: string): string | undefined {
+  if (!raw.startsWith("/**")) return undefined;
+  const match = raw.match(new RegExp(`@${tag}[ \\t]+(.+)`));
+  if (!match) return undefined;
+  const value = match[1]
+    .replace(/\*\/\s*$/, "")
+    .replace(/\*\s*$/, "")
+    .trim();
+  return value || undefined;
+}
+
+/** Read a boolean tag (`@tag`, `@tag true` or `@tag false`) from a single JSDoc comment as "true" or "false". */
+function readJSDocFlag(raw: string, tag: string): string | undefined {
+  if (!raw.startsWith("/**")) return undefined;
+  const match = raw.match(new RegExp(`@${tag}\\b(?:[ \\t]+(true|false)\\b)?`));
+  return match ? (match[1] ?? "true") : undefined;
+}
+
+/**
+ * Comments before the first statement that belong to the file rather than to that statement:
+ * every comment when the file starts with an import, otherwise all but a comment attached
+ * directly (no blank line) to the first statement.
+ */
+function getFileHeaderComments(sf: ts.SourceFile): string[] {
+  const first = sf.statements[0];
+  if (!first) return [];
+  const text = sf.getFullText();
+  const ranges = ts.getLeadingCommentRanges?.(text, first.getFullStart()) || [];
+  if (ranges.length === 0) return [];
+
+  let headerRanges: readonly ts.CommentRange[] = ranges;
+  if (!ts.isImportDeclaration(first)) {
+    const last = ranges[ranges.length - 1];
+    const gap = text.slice(last.end, first.getStart(sf));
+    if (!/\n\s*\n/.test(gap)) headerRanges = ranges.slice(0, -1);
+  }
+  return headerRanges.map((r) => text.slice(r.pos, r.end));
+}
+
+/**
+ * Find a JSDoc tag value on the node itself, on its enclosing containers (e.g. the
+ * object literal's variable statement), or in the file header. The nearest one wins.
+ */
+function findInheritedTagValue(
+  node: ts.Node,
+  sf: ts.SourceFile,
+  tag: string,
+  read: (raw: string, tag: string) => string | undefined = readJSDocTagValue
+): string | undefined {
+  const text = sf.getFullText();
+  for (let current: ts.Node | undefined = node; current && !ts.isSourceFile(current); current = current.parent) {
+    const ranges = ts.getLeadingCommentRanges?.(text, current.getFullStart()) || [];
+    // The closest comment to the node takes precedence
+    for (let i = ranges.length - 1; i >= 0; i--) {
+      const value = read(text.slice(ranges[i].pos, ranges[i].end), tag);
+      if (value) return value;
     }
   }
+  for (const raw of getFileHeaderComments(sf)) {
+    const value = read(raw, tag);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a message is excluded with `@noTranslate`, on the message itself, an enclosing object or
+ * the file header. `@noTranslate false` on a message translates it inside an excluded object.
+ */
+function isNoTranslate(node: MessageContainer, fn: MessageFunction, sf: ts.SourceFile): boolean {
+  const directive = findInheritedTagValue(fn, sf, "noTranslate", readJSDocFlag);
+  if (directive !== undefined) return directive === "true";
+  return hasNoTranslateTag(node, sf) || hasNoTranslateTag(fn, sf);
+}
+
+/** The `@argMode indexed|named` directive on the message, an enclosing object or the file header. */
+export function extractArgMode(fn: MessageFunction, sf: ts.SourceFile): "indexed" | "named" | undefined {
+  const value = findInheritedTagValue(fn, sf, "argMode");
+  return value === "indexed" || value === "named" ? value : undefined;
+}
+
+/** The `@setDefaultValue [true|false]` directive on the message, an enclosing object or the file header. */
+export function extractSetDefaultValue(fn: MessageFunction, sf: ts.SourceFile): boolean | undefined {
+  const value = findInheritedTagValue(fn, sf, "setDefaultValue", readJSDocFlag);
+  return value === undefined ? undefined : value === "true";
+}
 
+/** Extract an explicit message key from a `@key` tag on the message's own JSDoc. */
+export function extractExplicitKey(
+  containerNode: MessageContainer,
+  fn: MessageFunction,
+  sf: ts.SourceFile
+): string | undefined {
+  const text = sf.getFullText();
+  for (const r of getMessageCommentRanges(containerNode, fn, sf)) {
+    const key = readJSDocTagValue(text.slice(r.pos, r.end), "key");
+    if (key) return key;
+  }
   return undefined;
 }
 
+/** Whether the function declares the `RichText` return type (optionally namespace-qualified). */
+function hasRichTextReturnType(fn: MessageFunction): boolean {
+  if (!fn.type || !ts.isTypeReferenceNode(fn.type)) return false;
+  const typeName = ts.isIdentifier(fn.type.typeName) ? fn.type.typeName : fn.type.typeName.right;
+  return typeName.text === "RichText";
+}
+
+/**
+ * Whether a message is rich text rendered through react-i18next's `<Trans>`: it has a
+ * `@richText` tag or declares the `RichText` return type.
+ */
+export function isRichTextMessage(containerNode: MessageContainer, fn: MessageFunction, sf: ts.SourceFile): boolean {
+  if (hasRichTextReturnType(fn)) return true;
+  const text = sf.getFullText();
+  return getMessageCommentRanges(containerNode, fn, sf).some((r) => {
+    const raw = text.slice(r.pos, r.end);
+    return raw.startsWith("/**") && /@richText\b/.test(raw);
+  });
+}
+
+/** Names of the tags used in a rich-text message, e.g. ["link", "br"] for "Read <link>terms</link><br/>". */
+export function extractRichTextTags(message: string): string[] {
+  const tags = new Set<string>();
+  for (const match of message.matchAll(/<\/?\s*([A-Za-z0-9_-]+)\s*\/?>/g)) {
+    tags.add(match[1]);
+  }
+  return Array.from(tags);
+}
+
+/** Extract the i18next namespace from a `@namespace` tag on the message, its container or the file header. */
+export function extractNamespace(containerNode: MessageContainer, sf: ts.SourceFile): string | undefined {
+  return findInheritedTagValue(containerNode, sf, "namespace");
+}
+
 /** Extract type information from a parameter declaration */
 function getTypeString(param: ts.ParameterDeclaration, sf: ts.SourceFile): string {
   if (param.type) {
@@ -198,13 +512,16 @@ function getTypeString(param: ts.ParameterDeclaration, sf: ts.SourceFile): strin
 }
 
 /** Try to return the node that actually contains the string literal content for better refs. */
-function anchorForMessageNode(
-  fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration
-): ts.Node | undefined {
+function anchorForMessageNode(fn: MessageFunction): ts.Node | undefined {
   const body = fn.body;
   if (!body) return fn;
 
-  if (ts.isStringLiteral(body) || ts.isNoSubstitutionTemplateLiteral(body) || ts.isBinaryExpression(body)) {
+  if (
+    ts.isStringLiteral(body) ||
+    ts.isNoSubstitutionTemplateLiteral(body) ||
+    ts.isTemplateExpression(body) ||
+    ts.isBinaryExpression(body)
+  ) {
     return body;
   }
   if (ts.isBlock(body)) {
@@ -220,108 +537,401 @@ function anchorForMessageNode(
   return fn;
 }
 
-function evaluateStringConcat(expr: ts.Expression): string | null {
+/**
+ * Resolve a `${}` template span to an ICU placeholder.
+ * Only bare references to the message function's own parameters are supported.
+ */
+function placeholderForSpan(
+  expr: ts.Expression,
+  params: readonly MessageParameter[],
+  argMode: "indexed" | "named"
+): string | null {
+  if (!ts.isIdentifier(expr)) return null;
+  const index = params.findIndex((p) => p.binding === expr.text);
+  if (index === -1) return null;
+  return argMode === "indexed" ? `{${index}}` : `{${params[index].name}}`;
+}
+
+/**
+ * Fold a string expression into the message text: literals, `+` chains and template literals.
+ * With a type-aware `resolveConstant`, references to constants are inlined as well.
+ */
+function evaluateStringConcat(
+  expr: ts.Expression,
+  params: readonly MessageParameter[],
+  argMode: "indexed" | "named",
+  resolveConstant?: ConstantResolver
+): string | null {
   if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
     return expr.text;
   }
+  if (ts.isTemplateExpression(expr)) {
+    let out = expr.head.text;
+    for (const span of expr.templateSpans) {
+      const placeholder = placeholderForSpan(span.expression, params, argMode) ?? resolveConstant?.(span.expression);
+      if (placeholder == null) return null;
+      out += placeholder + span.literal.text;
+    }
+    return out;
+  }
   if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.PlusToken) {
-    const left = evaluateStringConcat(expr.left);
-    const right = evaluateStringConcat(expr.right);
+    const left = evaluateStringConcat(expr.left, params, argMode, resolveConstant);
+    const right = evaluateStringConcat(expr.right, params, argMode, resolveConstant);
     if (left != null && right != null) return left + right;
   }
-  return null;
+  return resolveConstant?.(expr) ?? null;
 }
 
 function extractReturnStringLiteral(
-  fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration
+  fn: MessageFunction,
+  sf: ts.SourceFile,
+  argMode: "indexed" | "named",
+  resolveConstant?: ConstantResolver
 ): string | null {
   const body = fn.body;
   if (!body) return null;
 
-  if (ts.isStringLiteral(body) || ts.isNoSubstitutionTemplateLiteral(body) || ts.isBinaryExpression(body)) {
-    return evaluateStringConcat(body);
-  }
+  const params = getMessageParameters(fn, sf).filter((p) => !p.isRest);
+
   if (ts.isBlock(body)) {
     const stmts = body.statements;
     if (stmts.length === 1 && ts.isReturnStatement(stmts[0])) {
       const ret = stmts[0].expression;
-      if (ret) return evaluateStringConcat(ret);
+      if (ret) return evaluateStringConcat(ret, params, argMode, resolveConstant);
     }
+    return null;
   }
-  return null;
+  return evaluateStringConcat(body, params, argMode, resolveConstant);
 }
 
 /**
  * Check if a message node should be transformed.
  * Returns null if it should be skipped, or the extracted string if it should be transformed.
+ * Template literal interpolations of parameters (`${name}`) are rewritten to ICU placeholders.
  */
 export function shouldTransformNode(
-  node: ts.PropertyAssignment | ts.MethodDeclaration,
-  fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration,
-  sf: ts.SourceFile
+  node: MessageContainer,
+  fn: MessageFunction,
+  sf: ts.SourceFile,
+  argMode: "indexed" | "named",
+  resolveConstant?: ConstantResolver
 ): string | null {
-  if (hasNoTranslateTag(node, sf) || hasNoTranslateTag(fn, sf)) {
+  if (isNoTranslate(node, fn, sf)) {
     return null;
   }
-  return extractReturnStringLiteral(fn);
+  return extractReturnStringLiteral(fn, sf, argMode, resolveConstant);
+}
+
+/** Whether a returned expression is, or directly combines, literal text: `"Hi"`, `name + "!"`, `ok ? "Yes" : "No"`. */
+function isLiteralText(expr: ts.Expression): boolean {
+  if (ts.isParenthesizedExpression(expr)) return isLiteralText(expr.expression);
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr) || ts.isTemplateExpression(expr)) {
+    return true;
+  }
+  if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return isLiteralText(expr.left) || isLiteralText(expr.right);
+  }
+  if (ts.isConditionalExpression(expr)) return isLiteralText(expr.whenTrue) || isLiteralText(expr.whenFalse);
+  return false;
+}
+
+/**
+ * Whether a function looks like a message: it returns literal text from its top level, or it is a
+ * member of a message object or class declared to return a string. Helpers that only use strings
+ * along the way, such as formatters, don't.
+ */
+function isMessageLike(node: MessageContainer, fn: MessageFunction, body: ts.ConciseBody): boolean {
+  const returned = ts.isBlock(body)
+    ? body.statements.flatMap((stmt) => (ts.isReturnStatement(stmt) && stmt.expression ? [stmt.expression] : []))
+    : [body];
+  if (returned.some(isLiteralText)) return true;
+
+  const isMember = !ts.isFunctionDeclaration(node) && !ts.isVariableStatement(node);
+  return isMember && !!fn.type && (fn.type.kind === ts.SyntaxKind.StringKeyword || hasRichTextReturnType(fn));
+}
+
+/** Describe the part of a returned expression that can't be folded into a message. */
+function explainUnsupportedExpression(
+  expr: ts.Expression,
+  sf: ts.SourceFile,
+  params: readonly MessageParameter[],
+  argMode: "indexed" | "named",
+  resolveConstant?: ConstantResolver
+): string {
+  if (ts.isParenthesizedExpression(expr)) {
+    return explainUnsupportedExpression(expr.expression, sf, params, argMode, resolveConstant);
+  }
+  if (ts.isTemplateExpression(expr)) {
+    const span = expr.templateSpans.find(
+      (span) =>
+        placeholderForSpan(span.expression, params, argMode) == null && resolveConstant?.(span.expression) == null
+    );
+    const what = resolveConstant ? "a parameter or constant" : "a parameter";
+    return `it interpolates \`\${${span?.expression.getText(sf)}}\`, which is not ${what}`;
+  }
+  if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    const left = evaluateStringConcat(expr.left, params, argMode, resolveConstant);
+    return explainUnsupportedExpression(left == null ? expr.left : expr.right, sf, params, argMode, resolveConstant);
+  }
+  if (ts.isConditionalExpression(expr)) return "it returns a conditional expression";
+  if (ts.isCallExpression(expr) || ts.isTaggedTemplateExpression(expr)) return "it returns the result of a call";
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    return resolveConstant
+      ? `it returns \`${expr.getText(sf)}\`, which is not a string constant`
+      : `it returns \`${expr.getText(sf)}\`; constants are only inlined when a tsconfig is configured`;
+  }
+  return `it returns \`${expr.getText(sf)}\`, which is not a string literal, template or concatenation`;
 }
 
 /**
- * Generate a unique message ID (hash) for the given original string and context.
- * Uses a global store to ensure no duplicates.
+ * Explain why `shouldTransformNode` skipped a message-like function, so the untranslated string
+ * can be reported. Returns null for functions that don't look like messages or are `@noTranslate`.
+ */
+export function explainSkippedMessage(
+  node: MessageContainer,
+  fn: MessageFunction,
+  sf: ts.SourceFile,
+  argMode: "indexed" | "named",
+  resolveConstant?: ConstantResolver
+): string | null {
+  const body = fn.body;
+  if (!body || !isMessageLike(node, fn, body)) return null;
+  if (isNoTranslate(node, fn, sf)) return null;
+
+  let returned: ts.Expression;
+  if (ts.isBlock(body)) {
+    const stmts = body.statements;
+    if (stmts.length !== 1 || !ts.isReturnStatement(stmts[0]) || !stmts[0].expression) {
+      return "its body is not a single return statement";
+    }
+    returned = stmts[0].expression;
+  } else {
+    returned = body;
+  }
+  const params = getMessageParameters(fn, sf).filter((p) => !p.isRest);
+  return explainUnsupportedExpression(returned, sf, params, argMode, resolveConstant);
+}
+
+/** How transformed code refers to the i18next instance: `<local>.t(...)` or `<local>.<member>.t(...)`. */
+export type RuntimeBinding = {
+  local: string;
+  member?: string;
+  /** Import statement to inject when the file doesn't already import the instance */
+  injectImport?: string;
+};
+
+/** Collect every identifier name in the file so an injected import never shadows or collides. */
+function collectIdentifierNames(sf: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  const walk = (node: ts.Node) => {
+    if (ts.isIdentifier(node)) names.add(node.text);
+    ts.forEachChild(node, walk);
+  };
+  walk(sf);
+  return names;
+}
+
+/**
+ * Resolve how to reference the runtime i18next instance in this file.
+ * Reuses an existing value import of the instance module (default, aliased, named or namespace);
+ * otherwise picks a collision-free local name and returns the import statement to inject.
+ */
+export function resolveRuntimeBinding(
+  sf: ts.SourceFile,
+  runtimeImport: { from: string; name: string; kind?: "default" | "named" }
+): RuntimeBinding {
+  const kind = runtimeImport.kind ?? "default";
+
+  for (const st of sf.statements) {
+    if (!ts.isImportDeclaration(st) || !ts.isStringLiteral(st.moduleSpecifier)) continue;
+    if (st.moduleSpecifier.text !== runtimeImport.from) continue;
+    const clause = st.importClause;
+    if (!clause || clause.isTypeOnly) continue;
+
+    if (kind === "default" && clause.name) {
+      return { local: clause.name.text };
+    }
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      return { local: bindings.name.text, member: kind === "default" ? "default" : runtimeImport.name };
+    }
+    if (bindings && ts.isNamedImports(bindings)) {
+      const imported = kind === "default" ? "default" : runtimeImport.name;
+      for (const el of bindings.elements) {
+        if (el.isTypeOnly) continue;
+        if ((el.propertyName ?? el.name).text === imported) {
+          return { local: el.name.text };
+        }
+      }
+    }
+  }
+
+  const taken = collectIdentifierNames(sf);
+  let local = runtimeImport.name;
+  for (let i = 1; taken.has(local); i++) {
+    local = `_${runtimeImport.name}${i > 1 ? i : ""}`;
+  }
+
+  const from = JSON.stringify(runtimeImport.from);
+  let injectImport: string;
+  if (kind === "default") {
+    injectImport = `import ${local} from ${from};`;
+  } else if (local === runtimeImport.name) {
+    injectImport = `import { ${local} } from ${from};`;
+  } else {
+    injectImport = `import { ${runtimeImport.name} as ${local} } from ${from};`;
+  }
+  return { local, injectImport };
+}
+
+/** Pick a name for the hoisted translator helper (`__t`, `__t2`, ...) that doesn't collide with the file's identifiers. */
+export function resolveTranslatorName(sf: ts.SourceFile): string {
+  const taken = collectIdentifierNames(sf);
+  let name = "__t";
+  for (let i = 2; taken.has(name); i++) {
+    name = `__t${i}`;
+  }
+  return name;
+}
+
+/**
+ * Generate a unique message ID for the given original string and context, using the key strategy.
+ * Uses a global store to ensure no duplicates within the file, and claims the key in the
+ * message store (when `ref` is given) to resolve collisions across files. An explicit key from a
+ * `@key` tag is returned as-is.
  */
 export function generateMessageId(
   originalString: string,
   translationContext: string | undefined,
   globalStore: { seen: Map<string, string>; reverse: Map<string, string> },
-  hashLength: number
+  keyOptions: { hashLength: number; keyStrategy?: KeyStrategy; hashNormalization?: HashNormalization; path?: string },
+  explicitKey?: string,
+  ref?: PoRef,
+  store: I18nStore = i18nStore
 ): string {
+  // An explicit @key is used verbatim
+  if (explicitKey) return explicitKey;
+
+  const { hashLength, keyStrategy, hashNormalization, path } = keyOptions;
   const internedOriginal = stringPool.intern(originalString);
-  const compositeKey = translationContext ? `${internedOriginal}::${translationContext}` : internedOriginal;
+  // Messages that only differ by normalized-away edits are the same message
+  const keySource = hashNormalization ? normalizeForHash(internedOriginal, hashNormalization) : internedOriginal;
+  const compositeKey = translationContext ? `${keySource}::${translationContext}` : keySource;
+  // With path-based keys, the same text at two paths gets two keys
+  const reuseKey = isPathBasedStrategy(keyStrategy) ? `${compositeKey}\u0000${path ?? ""}` : compositeKey;
 
-  let idHash = globalStore.reverse.get(compositeKey);
+  let idHash = globalStore.reverse.get(reuseKey);
   if (!idHash) {
-    idHash = stableHash(internedOriginal, { context: translationContext, hashLength });
+    idHash = computeKey(
+      keyStrategy,
+      { source: internedOriginal, translationContext, path, hashLength },
+      hashNormalization
+    );
+    // Messages from other files may get the same key; only the one that sorts first keeps it
+    const readable = keyStrategy === "path" ? path !== undefined : typeof keyStrategy === "function";
+    if (ref && !store.claimKey(idHash, keySource, translationContext, ref, readable)) {
+      idHash = deriveKey(keyStrategy, idHash, compositeKey, hashLength);
+    }
     while (globalStore.seen.has(idHash) && globalStore.seen.get(idHash) !== compositeKey) {
-      idHash = stableHash(compositeKey + ":" + idHash, { hashLength: Math.min(40, hashLength + 2) });
+      idHash = deriveKey(keyStrategy, idHash, compositeKey, hashLength);
     }
     globalStore.seen.set(idHash, compositeKey);
-    globalStore.reverse.set(compositeKey, idHash);
+    globalStore.reverse.set(reuseKey, idHash);
   }
 
   return idHash;
 }
 
 /**
- * Record the message in the i18nStore with all its metadata.
+ * Object path of a message, used by the `path` key strategy: "LoginMessages.errorInvalid" for a
+ * property of `export const LoginMessages = {...}` (nested objects add segments), "Class.member"
+ * for class members, or the name of a top-level function. Undefined when there is no stable name.
+ */
+export function getMessagePath(containerNode: MessageContainer, fn: MessageFunction): string | undefined {
+  const segments: string[] = [];
+  let node: ts.Node = ts.isVariableStatement(containerNode) ? fn.parent : containerNode;
+  for (;;) {
+    if (
+      ts.isPropertyAssignment(node) ||
+      ts.isPropertyDeclaration(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node)
+    ) {
+      const name = propertyNameText(node.name);
+      if (name === undefined) return undefined;
+      segments.unshift(name);
+      if (ts.isClassLike(node.parent)) {
+        if (!node.parent.name) return undefined;
+        segments.unshift(node.parent.name.text);
+        break;
+      }
+      node = node.parent.parent; // Skip the object literal
+    } else if (ts.isVariableDeclaration(node) || ts.isFunctionDeclaration(node)) {
+      if (!node.name || !ts.isIdentifier(node.name)) return undefined;
+      segments.unshift(node.name.text);
+      break;
+    } else if (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node)) {
+      node = node.parent;
+    } else {
+      return undefined;
+    }
+  }
+  return segments.join(".");
+}
+
+/**
+ * Position of a message: the string it returns, or the container when there is no single string.
+ * The file is relative to `rootDir`, the working directory by default.
+ */
+export function getMessageRef(
+  sf: ts.SourceFile,
+  containerNode: MessageContainer,
+  fn: MessageFunction,
+  rootDir?: string
+): PoRef {
+  const anchor = anchorForMessageNode(fn) ?? containerNode;
+  const startPos = sf.getLineAndCharacterOfPosition(anchor.getStart(sf));
+  return { file: toRelPosix(sf.fileName, rootDir), line: startPos.line + 1, column: startPos.character + 1 };
+}
+
+/**
+ * Record the message in the message store with all its metadata, and return the record.
  */
 export function recordMessage(
   idHash: string,
   internedOriginal: string,
   translationContext: string | undefined,
   sf: ts.SourceFile,
-  containerNode: ts.PropertyAssignment | ts.MethodDeclaration,
-  fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration
-): void {
+  containerNode: MessageContainer,
+  fn: MessageFunction,
+  ref: PoRef,
+  namespace?: string,
+  explicitKey?: boolean,
+  richTextTags?: string[],
+  keySource?: string,
+  store: I18nStore = i18nStore
+): MessageRecord {
   const anchor = anchorForMessageNode(fn) ?? containerNode;
-  const startPos = sf.getLineAndCharacterOfPosition(anchor.getStart(sf));
-  const rel = toRelPosix(sf.fileName);
-  const line = startPos.line + 1;
-  const column = startPos.character + 1;
 
   const comments = [
     ...getLeadingComments(sf, containerNode),
     ...(anchor !== containerNode ? getLeadingComments(sf, anchor) : []),
   ];
 
-  const parameterMetadata = extractParameterMetadata(fn, sf);
+  const parameterMetadata = extractParameterMetadata(fn, containerNode, sf);
 
-  i18nStore.add({
+  const record: MessageRecord = {
     id: idHash,
     source: internedOriginal,
+    keySource,
     translationContext,
-    ref: { file: rel, line, column },
+    namespace,
+    explicitKey,
+    richTextTags,
+    ref,
     comments,
     parameterMetadata,
-  });
+  };
+  store.add(record);
+  return record;
 }
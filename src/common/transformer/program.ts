@@ -0,0 +1,111 @@
+/**
+ * Type-aware support for the transformer.
+ *
+ * When a tsconfig is configured, message files are analyzed through a `ts.Program` so that
+ * `const` string literals and literal-typed enum members can be folded into messages, even
+ * when they are imported from another module. Programs are cached per tsconfig path and
+ * rebuilt (reusing the previous program) when a file no longer matches what it was built from.
+ */
+import path from "path";
+import ts from "typescript";
+
+type CachedProgram = {
+  program: ts.Program;
+  /** Set when files outside the current module may have changed (e.g. a new watch build) */
+  stale: boolean;
+};
+
+const programs = new Map<string, CachedProgram>();
+
+export type TypeCheckedSource = {
+  sourceFile: ts.SourceFile;
+  checker: ts.TypeChecker;
+};
+
+/** Resolve an expression to the text of a compile-time constant, or null if it isn't one. */
+export type ConstantResolver = (expr: ts.Expression) => string | null;
+
+function createProgram(configPath: string, oldProgram?: ts.Program): ts.Program {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(`Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`);
+  }
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+  return ts.createProgram({
+    rootNames: parsed.fileNames,
+    options: parsed.options,
+    projectReferences: parsed.projectReferences,
+    oldProgram,
+  });
+}
+
+/**
+ * Get the type-checked source file for `fileName` from the program of `tsconfig`.
+ * Returns undefined when the file isn't part of the program or its contents differ from
+ * `code` (e.g. it was already modified by another loader), in which case callers fall
+ * back to syntax-only analysis.
+ */
+export function getTypeCheckedSource(tsconfig: string, fileName: string, code: string): TypeCheckedSource | undefined {
+  const configPath = path.resolve(tsconfig);
+  let cached = programs.get(configPath);
+  if (!cached || cached.stale) {
+    cached = { program: createProgram(configPath, cached?.program), stale: false };
+    programs.set(configPath, cached);
+  }
+
+  let sourceFile = cached.program.getSourceFile(fileName);
+  if (sourceFile && sourceFile.text !== code) {
+    // A rebuild only helps when the file changed on disk since the program was built; code that
+    // another loader already modified never matches, and rebuilding for each such module is slow
+    if (ts.sys.readFile(fileName) !== code) return undefined;
+    cached = { program: createProgram(configPath, cached.program), stale: false };
+    programs.set(configPath, cached);
+    sourceFile = cached.program.getSourceFile(fileName);
+  }
+  if (!sourceFile || sourceFile.text !== code) return undefined;
+
+  // Creating the checker binds the program, which also sets parent pointers
+  return { sourceFile, checker: cached.program.getTypeChecker() };
+}
+
+/**
+ * Mark every cached program as stale so it is rebuilt on next use.
+ * Call at the start of each build so changes to imported constants are picked up.
+ */
+export function invalidatePrograms(): void {
+  for (const cached of programs.values()) {
+    cached.stale = true;
+  }
+}
+
+/**
+ * Create a resolver for references to `const` variables and enum members whose type is a
+ * string or number literal. `onResolve` receives the file that declares each resolved constant.
+ */
+export function createConstantResolver(
+  checker: ts.TypeChecker,
+  onResolve: (fileName: string) => void
+): ConstantResolver {
+  return (expr) => {
+    if (!ts.isIdentifier(expr) && !ts.isPropertyAccessExpression(expr)) return null;
+
+    let symbol = checker.getSymbolAtLocation(expr);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol);
+    const decl = symbol?.valueDeclaration;
+    if (!decl) return null;
+
+    // Only constants: a parameter or `let` with a literal type could hold another value at runtime
+    const isConstVariable =
+      ts.isVariableDeclaration(decl) && (ts.getCombinedNodeFlags(decl) & ts.NodeFlags.Const) !== 0;
+    if (!isConstVariable && !ts.isEnumMember(decl)) return null;
+
+    const type = checker.getTypeAtLocation(expr);
+    let text: string;
+    if (type.isStringLiteral()) text = type.value;
+    else if (type.isNumberLiteral()) text = String(type.value);
+    else return null;
+
+    onResolve(decl.getSourceFile().fileName);
+    return text;
+  };
+}
@@ -0,0 +1,135 @@
+import fs from "fs";
+import path from "path";
+import { tmpdir } from "os";
+import ts from "typescript";
+import { transformMessages } from "../transformer";
+import { invalidatePrograms } from "../program";
+import { stableHash } from "../../hash";
+import { i18nStore } from "../../i18nStore";
+
+describe("type-aware constant resolution (tsconfig)", () => {
+  let tempDir: string;
+  let tsconfig: string;
+
+  function write(file: string, content: string): string {
+    const filePath = path.join(tempDir, file);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  function transform(file: string, code = fs.readFileSync(path.join(tempDir, file), "utf8")) {
+    return transformMessages(code, path.join(tempDir, file), {
+      argMode: "named",
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+      tsconfig,
+    });
+  }
+
+  beforeEach(() => {
+    i18nStore.clear();
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), "i18n-program-test-")));
+    tsconfig = write("tsconfig.json", JSON.stringify({ compilerOptions: { strict: true }, include: ["*.ts"] }));
+    write(
+      "brand.ts",
+      `export const BRAND_NAME = "Acme";
+export let mutableName = "Mutable";
+export enum Section { Billing = "Billing", Limit = 5 }`
+    );
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("inlines imported const strings and enum members into the message", () => {
+    write(
+      "app.messages.ts",
+      `import { BRAND_NAME, Section } from "./brand";
+export const Messages = {
+  settings: (): string => BRAND_NAME + " Settings",
+  section: (): string => \`\${Section.Billing} (max \${Section.Limit})\`,
+};`
+    );
+
+    const result = transform("app.messages.ts");
+
+    const sources = Array.from(i18nStore.all().values()).map((e) => e.source);
+    expect(sources).toEqual(["Acme Settings", "Billing (max 5)"]);
+    expect(result.code).toContain(`i18next.t("${stableHash("Acme Settings", { hashLength: 10 })}")`);
+    expect(result.dependencies).toEqual([path.join(tempDir, "brand.ts")]);
+  });
+
+  it("keeps parameters as placeholders and does not inline non-const bindings", () => {
+    write(
+      "app.messages.ts",
+      `import { BRAND_NAME, mutableName } from "./brand";
+export const Messages = {
+  welcome: (name: string): string => \`\${BRAND_NAME} welcomes \${name}\`,
+  mutable: (): string => mutableName + "!",
+};`
+    );
+
+    transform("app.messages.ts");
+
+    const sources = Array.from(i18nStore.all().values()).map((e) => e.source);
+    expect(sources).toEqual(["Acme welcomes {name}"]);
+  });
+
+  it("falls back to syntax-only analysis when the code differs from the program", () => {
+    write("app.messages.ts", `export const Messages = { a: (): string => "On disk" };`);
+
+    const code = `import { BRAND_NAME } from "./brand";
+export const Messages = { a: (): string => BRAND_NAME, b: (): string => "Literal" };`;
+    const result = transform("app.messages.ts", code);
+
+    expect(result.didTransform).toBe(true);
+    expect(Array.from(i18nStore.all().values()).map((e) => e.source)).toEqual(["Literal"]);
+  });
+
+  it("doesn't rebuild the program for code that differs from the file on disk", () => {
+    write("app.messages.ts", `export const Messages = { a: (): string => "On disk" };`);
+    transform("app.messages.ts");
+    // A rebuild starts by reading the tsconfig
+    const readFile = jest.spyOn(ts.sys, "readFile");
+
+    try {
+      transform("app.messages.ts", `export const Messages = { a: (): string => "Modified by a loader" };`);
+      expect(readFile).not.toHaveBeenCalledWith(tsconfig);
+    } finally {
+      readFile.mockRestore();
+    }
+  });
+
+  it("rebuilds the program when the file changed on disk", () => {
+    write("app.messages.ts", `export const Messages = { a: (): string => "Before" };`);
+    transform("app.messages.ts");
+
+    write(
+      "app.messages.ts",
+      `import { BRAND_NAME } from "./brand";\nexport const Messages = { a: (): string => BRAND_NAME };`
+    );
+    i18nStore.clear();
+    transform("app.messages.ts");
+
+    expect(Array.from(i18nStore.all().values()).map((e) => e.source)).toEqual(["Acme"]);
+  });
+
+  it("picks up changed constants after the programs are invalidated", () => {
+    write(
+      "app.messages.ts",
+      `import { BRAND_NAME } from "./brand";\nexport const M = { a: (): string => BRAND_NAME };`
+    );
+    transform("app.messages.ts");
+
+    write("brand.ts", `export const BRAND_NAME = "Globex";`);
+    invalidatePrograms();
+    i18nStore.clear();
+    transform("app.messages.ts");
+
+    expect(Array.from(i18nStore.all().values()).map((e) => e.source)).toEqual(["Globex"]);
+  });
+});
@@ -10,7 +10,7 @@ jest.mock("fs", () => ({
 import fs from "fs";
 import { transformMessages } from "../transformer";
 import { stableHash } from "../../hash";
-import { i18nStore } from "../../i18nStore";
+import { i18nStore, I18nStore } from "../../i18nStore";
 
 const mockedFs = fs as jest.Mocked<typeof fs>;
 
@@ -23,6 +23,14 @@ function transformTypeScript(sourceCode: string, transformerOptions: any): strin
     setDefaultValue: transformerOptions.setDefaultValue ?? false,
     debug: transformerOptions.debug ?? false,
     hashLength: transformerOptions.hashLength ?? 10,
+    runtimeImport: transformerOptions.runtimeImport,
+    defaultNamespace: transformerOptions.defaultNamespace,
+    namespaceFromPath: transformerOptions.namespaceFromPath,
+    icuMode: transformerOptions.icuMode,
+    hoistTranslator: transformerOptions.hoistTranslator,
+    keyStrategy: transformerOptions.keyStrategy,
+    hashNormalization: transformerOptions.hashNormalization,
+    autoContext: transformerOptions.autoContext,
   });
 
   return result.code;
@@ -55,7 +63,7 @@ it("transforms TS message functions", () => {
 it("preserves functions that don't return string literals", () => {
   const input = `export const Message = {
   foo: (): string => "foo",
-  dynamic: (name: string): string => \`Hello \${name}\`,
+  dynamic: (name: string): string => \`Hello \${name.toUpperCase()}\`,
   computed: (): string => Math.random().toString(),
 };`;
 
@@ -68,7 +76,7 @@ it("preserves functions that don't return string literals", () => {
   expect(transformedCode).toContain(`foo: (): string => i18next.t("${stableHash("foo", { hashLength: 10 })}")`);
 
   // Dynamic and computed should remain unchanged
-  expect(transformedCode).toContain("dynamic: (name: string): string => `Hello ${name}`");
+  expect(transformedCode).toContain("dynamic: (name: string): string => `Hello ${name.toUpperCase()}`");
   expect(transformedCode).toContain("computed: (): string => Math.random().toString()");
 });
 
@@ -447,6 +455,849 @@ describe("argument parsing modes", () => {
   });
 });
 
+describe("top-level exported functions", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  const hash = stableHash("Welcome {name}", { hashLength: 10 });
+
+  it("transforms exported function declarations", () => {
+    const input = `export function welcome(name: string): string {
+  return "Welcome {name}";
+}`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toMatch(new RegExp(`return i18next\\.t\\("${hash}", \\{\\s*name\\s*\\}\\);`));
+    expect(transformedCode).toContain('import i18next from "i18next"');
+  });
+
+  it("transforms exported const arrow functions and function expressions", () => {
+    const input = `export const welcome = (name: string) => "Welcome {name}";
+export const goodbye = function (): string {
+  return "Goodbye";
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain(`export const welcome = (name: string) => i18next.t("${hash}"`);
+    expect(transformedCode).toContain(`return i18next.t("${stableHash("Goodbye", { hashLength: 10 })}");`);
+  });
+
+  it("leaves non-exported, non-const and nested functions alone", () => {
+    const input = `function local(): string {
+  return "Local";
+}
+export let mutable = (): string => "Mutable";
+export function outer() {
+  const inner = (): string => "Inner";
+  return inner;
+}`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toBe(input);
+  });
+
+  it("respects @noTranslate on exported functions", () => {
+    const input = `/** @noTranslate */
+export function debugLabel(): string {
+  return "DEBUG";
+}
+
+/** @noTranslate */
+export const internal = (): string => "Internal";`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toBe(input);
+  });
+
+  it("extracts @translationContext, JSDoc comments and @param descriptions", () => {
+    const input = `/**
+ * Greeting on the dashboard
+ * @translationContext dashboard
+ * @param name The user's first name
+ */
+export const welcome = (name: string): string => "Welcome {name}";`;
+
+    transformTypeScript(input, {});
+
+    const [entry] = Array.from(i18nStore.all().values());
+    expect(entry.translationContext).toBe("dashboard");
+    expect(entry.id).toBe(stableHash("Welcome {name}", { context: "dashboard", hashLength: 10 }));
+    expect(Array.from(entry.extractedComments).join(" ")).toContain("Greeting on the dashboard");
+    expect(entry.parameterMetadata?.parameterJSDoc).toEqual({ name: "The user's first name" });
+  });
+});
+
+describe("getters and class containers", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  const titleHash = stableHash("Dashboard", { hashLength: 10 });
+  const greetHash = stableHash("Hi {n}", { hashLength: 10 });
+
+  it("transforms getters in object literals", () => {
+    const input = `export const Messages = {
+  get title(): string {
+    return "Dashboard";
+  },
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain(`return i18next.t("${titleHash}");`);
+  });
+
+  it("transforms static and instance class properties, methods and getters", () => {
+    const input = `export class Messages {
+  static greet = (n: string): string => "Hi {n}";
+  farewell = function (): string {
+    return "Bye";
+  };
+  count(n: number): string {
+    return "{n, plural, one {# item} other {# items}}";
+  }
+  get title(): string {
+    return "Dashboard";
+  }
+}`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toMatch(
+      new RegExp(`static greet = \\(n: string\\): string => i18next\\.t\\("${greetHash}"`)
+    );
+    expect(transformedCode).toContain(`return i18next.t("${stableHash("Bye", { hashLength: 10 })}");`);
+    expect(transformedCode).toContain(`return i18next.t("${titleHash}");`);
+    expect(i18nStore.all().size).toBe(4);
+  });
+
+  it("respects @noTranslate and @translationContext on class members", () => {
+    const input = `export class Messages {
+  /** @noTranslate */
+  static id = (): string => "messages";
+
+  /** @translationContext header */
+  get title(): string {
+    return "Dashboard";
+  }
+}`;
+
+    transformTypeScript(input, {});
+
+    const entries = Array.from(i18nStore.all().values());
+    expect(entries.map((e) => [e.source, e.translationContext])).toEqual([["Dashboard", "header"]]);
+  });
+
+  it("ignores class properties without a function initializer", () => {
+    const input = `export class Messages {
+  static label = "Dashboard";
+  value?: () => string;
+}`;
+
+    expect(transformTypeScript(input, {})).toBe(input);
+  });
+});
+
+describe("explicit keys (@key)", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("uses the @key value verbatim as the message key", () => {
+    const input = `export const Messages = {
+  /**
+   * Login page title
+   * @key legacy.login.title
+   */
+  title: (): string => "Log In",
+  other: (): string => "Log In",
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain('title: (): string => i18next.t("legacy.login.title")');
+    expect(transformedCode).toContain(`other: (): string => i18next.t("${stableHash("Log In", { hashLength: 10 })}")`);
+  });
+
+  it("records explicit keys in the store", () => {
+    const input = `export const Messages = {
+  /** @key legacy.login.title @translationContext login */
+  title: (): string => "Log In",
+};`;
+
+    transformTypeScript(input, {});
+
+    const entry = i18nStore.all().get("legacy.login.title");
+    expect(entry).toMatchObject({ id: "legacy.login.title", source: "Log In", explicitKey: true });
+    expect(entry?.conflictingSources).toBeUndefined();
+  });
+
+  it("records conflicting sources for the same explicit key", () => {
+    const input = `export const Messages = {
+  /** @key shared.title */
+  a: (): string => "Log In",
+  /** @key shared.title */
+  b: (): string => "Sign In",
+};`;
+
+    transformTypeScript(input, {});
+
+    const entry = i18nStore.all().get("shared.title");
+    expect(entry?.source).toBe("Sign In");
+    expect(entry?.conflictingSources).toEqual(new Set(["Log In"]));
+  });
+
+  it("does not inherit @key from the container", () => {
+    const input = `/** @key shared.title */
+export const Messages = {
+  a: (): string => "Log In",
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain(`i18next.t("${stableHash("Log In", { hashLength: 10 })}")`);
+  });
+});
+
+describe("rich text (@richText)", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("rewrites @richText messages to <Trans> props instead of a t() call", () => {
+    const input = `export const Messages = {
+  /** Terms notice @richText */
+  terms: (): string => "Read the <link>terms</link>",
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+    const hash = stableHash("Read the <link>terms</link>", { hashLength: 10 });
+
+    expect(transformedCode).toContain(`terms: (): string => ({\n    i18nKey: "${hash}"\n})`);
+    expect(transformedCode).not.toContain("i18next");
+  });
+
+  it("detects the RichText return type and passes values, namespace and defaults", () => {
+    const input = `import type { RichText } from "i18next-auto-keys";
+export const Messages = {
+  greet: (name: string): RichText => "Hi <bold>{name}</bold>",
+  count(count: number): RichText {
+    return "<b>{count}</b> items";
+  },
+  plain: (): string => "Plain",
+};`;
+
+    const transformedCode = transformTypeScript(input, { setDefaultValue: true, defaultNamespace: "common" });
+
+    expect(transformedCode).toMatch(
+      /greet: \(name: string\): RichText => \(\{\s*i18nKey: "\w+",\s*ns: "common",\s*values: \{\s*name\s*\},\s*defaults: "Hi <bold>\{name\}<\/bold>"\s*\}\)/
+    );
+    expect(transformedCode).toMatch(/return \{\s*i18nKey: "\w+",\s*ns: "common",\s*values: \{\s*count\s*\}/);
+    // The runtime import is still needed for the plain message
+    expect(transformedCode).toContain('import i18next from "i18next";');
+  });
+
+  it("records the tags for translators", () => {
+    const input = `export const Messages = {
+  /** @richText */
+  terms: (): string => "Read the <link>terms</link> and <link>privacy policy</link><br/>",
+  plain: (): string => "No <tags> here",
+};`;
+
+    transformTypeScript(input, {});
+
+    const entries = Array.from(i18nStore.all().values());
+    expect(entries[0].richTextTags).toEqual(["link", "br"]);
+    expect(entries[1].richTextTags).toBeUndefined();
+  });
+});
+
+describe("key collisions across files", () => {
+  // Both messages hash to "f54ead0442" with the default hash length
+  const owner = "Message 1080860";
+  const other = "Message 1790599";
+
+  it("gives the shared key to the message that sorts first and a derived key to the other", () => {
+    i18nStore.clear();
+    const first = transformTypeScript(`export const A = { a: (): string => "${owner}" };`, {});
+    const second = transformTypeScript(`export const B = { b: (): string => "${other}" };`, {});
+
+    const derived = stableHash(`${other}:f54ead0442`, { hashLength: 12 });
+    expect(first).toContain('i18next.t("f54ead0442")');
+    expect(second).toContain(`i18next.t("${derived}")`);
+    expect(Array.from(i18nStore.all().keys()).sort()).toEqual([derived, "f54ead0442"].sort());
+    expect(i18nStore.collisions()).toEqual([
+      expect.objectContaining({
+        id: "f54ead0442",
+        messages: [expect.objectContaining({ source: owner }), expect.objectContaining({ source: other })],
+        stale: false,
+      }),
+    ]);
+  });
+});
+
+describe("ICU validation diagnostics", () => {
+  it("reports placeholder mismatches at the message's position", () => {
+    const input = `export const Messages = {
+  ok: (name: string): string => "Hello {name}",
+  typo: (name: string): string => "Hello {nmae}",
+};`;
+
+    const result = transformMessages(input, "test.messages.ts", {
+      argMode: "named",
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+    });
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        file: "test.messages.ts",
+        line: 3,
+        column: 35,
+        message: expect.stringContaining("{nmae}"),
+      }),
+      expect.objectContaining({ line: 3, column: 35, message: 'Parameter "name" is not used in "Hello {nmae}"' }),
+    ]);
+  });
+
+  it("still transforms messages with invalid ICU", () => {
+    const input = `export const Messages = {
+  broken: (): string => "Hello {",
+};`;
+
+    const result = transformMessages(input, "test.messages.ts", {
+      argMode: "named",
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+    });
+
+    expect(result.didTransform).toBe(true);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].message).toContain("Invalid ICU message");
+  });
+});
+
+describe("skipped message diagnostics", () => {
+  function transformSkipped(input: string, argMode: "indexed" | "named" = "named") {
+    return transformMessages(input, "test.messages.ts", {
+      argMode,
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+    });
+  }
+
+  it("reports message-like functions whose body isn't a supported string shape", () => {
+    const input = `export const Messages = {
+  ok: (): string => "Fine",
+  status: (online: boolean): string => online ? "Online" : "Offline",
+  label(): string {
+    const text = "Label";
+    return text;
+  },
+  upper: (name: string): string => name.toUpperCase(),
+  greet: (user: { name: string }): string => \`Hello \${user.name}\`,
+  brand: (): string => BRAND + " Settings",
+};`;
+
+    const result = transformSkipped(input);
+
+    expect(result.skipped.map(({ message, line }) => ({ message, line }))).toEqual([
+      { message: 'Message "status" is not translated: it returns a conditional expression', line: 3 },
+      { message: 'Message "label" is not translated: its body is not a single return statement', line: 4 },
+      { message: 'Message "upper" is not translated: it returns the result of a call', line: 8 },
+      {
+        message: 'Message "greet" is not translated: it interpolates `${user.name}`, which is not a parameter',
+        line: 9,
+      },
+      {
+        message:
+          'Message "brand" is not translated: it returns `BRAND`; constants are only inlined when a tsconfig is configured',
+        line: 10,
+      },
+    ]);
+  });
+
+  it("ignores functions that don't look like messages or are marked @noTranslate", () => {
+    const input = `export const Messages = {
+  count: (items: string[]): number => items.length,
+  format(value: number) {
+    return value.toFixed(2);
+  },
+  /** @noTranslate */
+  raw: (flag: boolean): string => flag ? "yes" : "no",
+};`;
+
+    expect(transformSkipped(input).skipped).toEqual([]);
+  });
+
+  it("ignores helpers that only use strings along the way", () => {
+    const input = `export function formatDate(date: Date): string {
+  return date.toISOString().replace("T", " ");
+}
+export const joinLabels = (labels: string[]): string => labels.join(", ");
+export const Messages = {
+  format(value: number) {
+    const fixed = value.toFixed(2);
+    return fixed.padStart(8, " ");
+  },
+};`;
+
+    expect(transformSkipped(input).skipped).toEqual([]);
+  });
+
+  it("reports top-level exported consts by their declared name", () => {
+    const input = `export const status = (online: boolean) => online ? "Online" : "Offline";`;
+
+    expect(transformSkipped(input).skipped).toEqual([
+      {
+        message: 'Message "status" is not translated: it returns a conditional expression',
+        file: "test.messages.ts",
+        line: 1,
+        column: 23,
+      },
+    ]);
+  });
+});
+
+describe("named placeholders in indexed mode", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("rewrites named placeholders to parameter positions in the key, source and defaultValue", () => {
+    const input = `export const Message = {
+  status: (name: string, count: number): string => "Hi {name}, {count, plural, one {# {name} item} other {# items}}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "indexed", setDefaultValue: true });
+
+    const indexed = "Hi {0}, {1, plural, one {# {0} item} other {# items}}";
+    expect(transformedCode).toContain(`i18next.t("${stableHash(indexed, { hashLength: 10 })}"`);
+    expect(transformedCode).toContain(`defaultValue: "${indexed}"`);
+    expect(Array.from(i18nStore.all().values())[0].source).toBe(indexed);
+  });
+
+  it("keeps parameter names in the metadata for translators", () => {
+    const input = `export const Message = {
+  greeting: (name: string): string => "Hello {name}",
+};`;
+
+    transformTypeScript(input, { argMode: "indexed" });
+
+    const [entry] = Array.from(i18nStore.all().values());
+    expect(entry.source).toBe("Hello {0}");
+    expect(entry.parameterMetadata?.parameterNames).toEqual(["name"]);
+  });
+
+  it("leaves unknown placeholders, quoted text and named mode untouched", () => {
+    const input = `export const Message = {
+  greeting: (name: string): string => "'{name}' {nmae}",
+};`;
+
+    transformTypeScript(input, { argMode: "indexed" });
+    transformTypeScript(input.replace("greeting", "named"), { argMode: "named" });
+
+    const sources = Array.from(i18nStore.all().values()).map((e) => e.source);
+    expect(sources).toEqual(["'{name}' {nmae}"]);
+  });
+});
+
+describe("template literal interpolation", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("converts parameter interpolations to named ICU placeholders", () => {
+    const input = `export const Message = {
+  greeting: (name: string): string => \`Hello \${name}!\`,
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "named" });
+
+    expect(transformedCode).toContain(`i18next.t("${stableHash("Hello {name}!", { hashLength: 10 })}", {`);
+    expect(transformedCode).not.toContain("`Hello ${name}!`");
+    expect(Array.from(i18nStore.all().values()).map((e) => e.source)).toEqual(["Hello {name}!"]);
+  });
+
+  it("converts parameter interpolations to indexed ICU placeholders", () => {
+    const input = `export const Message = {
+  summary: (user: string, count: number): string => \`\${user} has \${count} items\`,
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "indexed" });
+
+    expect(transformedCode).toContain(`i18next.t("${stableHash("{0} has {1} items", { hashLength: 10 })}", {`);
+    expect(transformedCode).toMatch(/"0":\s*user.*"1":\s*count/s);
+    expect(Array.from(i18nStore.all().values()).map((e) => e.source)).toEqual(["{0} has {1} items"]);
+  });
+
+  it("handles template literals in block bodies and concatenations", () => {
+    const input = `export const Message = {
+  welcome(name: string): string {
+    return \`Welcome \${name}, \` + "enjoy your stay";
+  },
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    const hash = stableHash("Welcome {name}, enjoy your stay", { hashLength: 10 });
+    expect(transformedCode).toContain(`return i18next.t("${hash}", {`);
+  });
+
+  it("skips template literals that interpolate non-parameter expressions", () => {
+    const input = `const brand = "Acme";
+export const Message = {
+  constant: (): string => \`Welcome to \${brand}\`,
+  call: (name: string): string => \`Hello \${name.trim()}\`,
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain("constant: (): string => `Welcome to ${brand}`");
+    expect(transformedCode).toContain("call: (name: string): string => `Hello ${name.trim()}`");
+    expect(transformedCode).not.toContain("i18next.t(");
+  });
+});
+
+describe("destructured, default and rest parameters", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("flattens object-destructured parameters into named values", () => {
+    const input = `type Props = { count: number; user: string };
+export const Message = {
+  status: ({ count, user }: Props): string => "{user} has {count} items",
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "named" });
+
+    expect(transformedCode).toContain(`i18next.t("${stableHash("{user} has {count} items", { hashLength: 10 })}", {`);
+    expect(transformedCode).toMatch(/\{\s*count,\s*user\s*\}\)/);
+  });
+
+  it("uses the source property name for renamed bindings", () => {
+    const input = `export const Message = {
+  greeting: ({ user: u }: { user: string }): string => "Hello {user}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "named" });
+
+    expect(transformedCode).toMatch(/user:\s*u\s*\}/);
+  });
+
+  it("flattens destructured parameters into indexed values", () => {
+    const input = `export const Message = {
+  status: ({ count, user }: { count: number; user: string }, suffix: string): string => "{0} {1} {2}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "indexed" });
+
+    expect(transformedCode).toMatch(/"0":\s*count,\s*"1":\s*user,\s*"2":\s*suffix/);
+  });
+
+  it("keeps default values in the signature and passes the bound values", () => {
+    const input = `export const Message = {
+  greeting: ({ name = "friend" }: { name?: string } = {}): string => "Hello {name}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "named" });
+
+    expect(transformedCode).toContain('greeting: ({ name = "friend" }: { name?: string } = {}): string => i18next.t(');
+    expect(transformedCode).toMatch(/\{\s*name\s*\}\)/);
+    const entry = Array.from(i18nStore.all().values())[0];
+    expect(entry.parameterMetadata).toEqual({
+      parameterNames: ["name"],
+      parameterTypes: ["string"],
+      parameterJSDoc: {},
+      parameterDefaults: { name: '"friend"' },
+    });
+  });
+
+  it("spreads object rest elements into named values", () => {
+    const input = `export const Message = {
+  greeting: ({ name, ...rest }: Record<string, string>): string => "Hello {name} from {city}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "named" });
+
+    expect(transformedCode).toMatch(/\{\s*name,\s*\.\.\.rest\s*\}\)/);
+    const entry = Array.from(i18nStore.all().values())[0];
+    expect(entry.parameterMetadata?.parameterNames).toEqual(["name"]);
+    expect(entry.parameterMetadata?.parameterTypes).toEqual(['Record<string, string>["name"]']);
+  });
+
+  it("supports template interpolation of destructured fields", () => {
+    const input = `export const Message = {
+  greeting: ({ user: u }: { user: string }): string => \`Hello \${u}\`,
+};`;
+
+    transformTypeScript(input, { argMode: "named" });
+
+    expect(Array.from(i18nStore.all().values()).map((e) => e.source)).toEqual(["Hello {user}"]);
+  });
+});
+
+describe("runtimeImport option", () => {
+  const message = `export const Message = {
+  greeting: (): string => "Hello",
+};`;
+  const hash = stableHash("Hello", { hashLength: 10 });
+
+  it("injects a default import from the configured module", () => {
+    const transformedCode = transformTypeScript(message, {
+      runtimeImport: { from: "@/i18n/instance", name: "i18n" },
+    });
+
+    expect(transformedCode).toContain('import i18n from "@/i18n/instance";');
+    expect(transformedCode).toContain(`i18n.t("${hash}")`);
+    expect(transformedCode).not.toContain("i18next");
+  });
+
+  it("injects a named import when kind is named", () => {
+    const transformedCode = transformTypeScript(message, {
+      runtimeImport: { from: "@/i18n/instance", name: "widgetI18n", kind: "named" },
+    });
+
+    expect(transformedCode).toContain('import { widgetI18n } from "@/i18n/instance";');
+    expect(transformedCode).toContain(`widgetI18n.t("${hash}")`);
+  });
+
+  it("reuses an existing aliased default import", () => {
+    const input = `import translator from "i18next";
+${message}`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain(`translator.t("${hash}")`);
+    expect(transformedCode.match(/import /g)).toHaveLength(1);
+  });
+
+  it("reuses an existing namespace import", () => {
+    const input = `import * as instance from "@/i18n/instance";
+${message}`;
+
+    const transformedCode = transformTypeScript(input, {
+      runtimeImport: { from: "@/i18n/instance", name: "i18n", kind: "named" },
+    });
+
+    expect(transformedCode).toContain(`instance.i18n.t("${hash}")`);
+    expect(transformedCode.match(/import /g)).toHaveLength(1);
+  });
+
+  it("does not treat imports of i18next from other modules as the runtime import", () => {
+    const input = `import i18next from "./legacy-i18n";
+${message}`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain('import _i18next from "i18next";');
+    expect(transformedCode).toContain(`_i18next.t("${hash}")`);
+  });
+
+  it("avoids colliding with a local variable of the same name", () => {
+    const input = `const i18next = "not the instance";
+${message}`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain('import _i18next from "i18next";');
+    expect(transformedCode).toContain(`_i18next.t("${hash}")`);
+    expect(transformedCode).toContain('const i18next = "not the instance";');
+  });
+});
+
+describe("namespaces (@namespace)", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  const hash = stableHash("Pay now", { hashLength: 10 });
+
+  it("applies an object-level @namespace tag to every message in the object", () => {
+    const input = `/** @namespace checkout */
+export const CheckoutMessages = {
+  pay: (): string => "Pay now",
+  total: (amount: number): string => "Total: {amount}",
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toMatch(new RegExp(`i18next\\.t\\("${hash}", \\{\\s*ns: "checkout"\\s*\\}\\)`));
+    expect(transformedCode).toMatch(/ns: "checkout",\s*amount/);
+    const namespaces = Array.from(i18nStore.all().values()).map((e) => e.namespace);
+    expect(namespaces).toEqual(["checkout", "checkout"]);
+  });
+
+  it("applies a file header @namespace tag to all objects in the file", () => {
+    const input = `/** @namespace checkout */
+
+import { something } from "./elsewhere";
+
+export const A = {
+  pay: (): string => "Pay now",
+};
+
+export const B = {
+  cancel: (): string => "Cancel",
+};`;
+
+    transformTypeScript(input, {});
+
+    const namespaces = Array.from(i18nStore.all().values()).map((e) => e.namespace);
+    expect(namespaces).toEqual(["checkout", "checkout"]);
+  });
+
+  it("does not leak an object-level tag on the first object to later objects", () => {
+    const input = `/** @namespace checkout */
+export const A = {
+  pay: (): string => "Pay now",
+};
+
+export const B = {
+  cancel: (): string => "Cancel",
+};`;
+
+    transformTypeScript(input, {});
+
+    const namespaces = Array.from(i18nStore.all().values()).map((e) => e.namespace);
+    expect(namespaces).toEqual(["checkout", undefined]);
+  });
+
+  it("lets a message-level tag override the object-level tag", () => {
+    const input = `/** @namespace checkout */
+export const CheckoutMessages = {
+  /** @namespace common */
+  pay: (): string => "Pay now",
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain('ns: "common"');
+    expect(transformedCode).not.toContain('ns: "checkout"');
+  });
+
+  it("keeps the same message in different namespaces as separate entries", () => {
+    const input = `/** @namespace checkout */
+export const A = {
+  pay: (): string => "Pay now",
+};
+
+/** @namespace billing */
+export const B = {
+  pay: (): string => "Pay now",
+};`;
+
+    transformTypeScript(input, {});
+
+    const entries = Array.from(i18nStore.all().values());
+    expect(entries.map((e) => [e.id, e.namespace])).toEqual([
+      [hash, "checkout"],
+      [hash, "billing"],
+    ]);
+  });
+
+  it("uses defaultNamespace for untagged messages", () => {
+    const input = `export const Message = {
+  pay: (): string => "Pay now",
+};`;
+
+    const transformedCode = transformTypeScript(input, { defaultNamespace: "shop" });
+
+    expect(transformedCode).toContain('ns: "shop"');
+  });
+
+  it("derives the namespace from the file name with namespaceFromPath", () => {
+    const input = `export const Message = {
+  pay: (): string => "Pay now",
+};`;
+
+    const transformedCode = transformTypeScript(input, { namespaceFromPath: true, defaultNamespace: "shop" });
+
+    // transformTypeScript uses "test.messages.ts"
+    expect(transformedCode).toContain('ns: "test"');
+  });
+
+  it("orders defaultValue before the namespace and interpolation values", () => {
+    const input = `/** @namespace checkout */
+export const Message = {
+  total: (amount: number): string => "Total: {amount}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { setDefaultValue: true });
+
+    expect(transformedCode).toMatch(/defaultValue: "Total: \{amount\}",\s*ns: "checkout",\s*amount/);
+  });
+});
+
+describe("icuMode: native", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("passes the plural variable as count", () => {
+    const input = `export const Message = {
+  files: (n: number): string => "{n, plural, one {# file} other {# files}}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { icuMode: "native" });
+
+    expect(transformedCode).toMatch(/n,\s*count: n\s*\}/);
+  });
+
+  it("passes the plural variable as count in indexed mode", () => {
+    const input = `export const Message = {
+  files: (n: number): string => "{0, plural, one {# file} other {# files}}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { icuMode: "native", argMode: "indexed" });
+
+    expect(transformedCode).toMatch(/"0": n,\s*count: n\s*\}/);
+  });
+
+  it("does not duplicate a parameter that is already named count", () => {
+    const input = `export const Message = {
+  files: (count: number): string => "{count, plural, one {# file} other {# files}}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { icuMode: "native" });
+
+    expect(transformedCode).not.toContain("count: count");
+  });
+
+  it("converts defaultValue to native interpolation and plural forms", () => {
+    const input = `export const Message = {
+  files: (n: number): string => "{n, plural, one {# file} other {# files}}",
+  greet: (name: string): string => "Hi {name}",
+};`;
+
+    const transformedCode = transformTypeScript(input, { icuMode: "native", setDefaultValue: true });
+
+    expect(transformedCode).toContain('defaultValue: "{{count}} files"');
+    expect(transformedCode).toContain('defaultValue_one: "{{count}} file"');
+    expect(transformedCode).toContain('defaultValue: "Hi {{name}}"');
+  });
+
+  it("stores the original ICU source for extraction", () => {
+    const input = `export const Message = {
+  files: (n: number): string => "{n, plural, one {# file} other {# files}}",
+};`;
+
+    transformTypeScript(input, { icuMode: "native" });
+
+    const [entry] = Array.from(i18nStore.all().values());
+    expect(entry.source).toBe("{n, plural, one {# file} other {# files}}");
+  });
+});
+
 describe("setDefaultValue option", () => {
   it("includes defaultValue in i18next.t call when setDefaultValue is enabled", () => {
     const input = `export const Message = {
@@ -754,19 +1605,481 @@ describe("Translation Context (@translationContext)", () => {
       hashLength: 10,
     });
 
-    // The transformer currently doesn't support context inheritance from nested objects
-    // Let's check what's actually happening
     const entries = Array.from(i18nStore.all().values());
     expect(entries).toHaveLength(2);
+    expect(entries.map((e) => e.translationContext)).toEqual(["auth-forms", "auth-forms"]);
+    expect(transformedCode).toContain(`i18next.t("${stableHash("Login", { context: "auth-forms", hashLength: 10 })}")`);
+  });
+});
+
+describe("hoistTranslator option", () => {
+  it("declares one translator per file and calls it for every message", () => {
+    const input = `export const Messages = {
+  hello: (): string => "Hello",
+  greet: (name: string): string => \`Hi \${name}\`,
+};`;
+
+    const transformedCode = transformTypeScript(input, { hoistTranslator: true });
+
+    expect(transformedCode).toContain(
+      'import i18next from "i18next";\nconst __t = (key: string, options?: any) => i18next.t(key, options);\n'
+    );
+    expect(transformedCode).toContain(`hello: (): string => __t("${stableHash("Hello", { hashLength: 10 })}")`);
+    expect(transformedCode).toMatch(/greet: \(name: string\): string => __t\("\w+", \{\s*name\s*\}\)/);
+    expect(transformedCode.match(/i18next\.t/g)).toHaveLength(1);
+  });
+
+  it("declares the translator after existing imports and avoids name collisions", () => {
+    const input = `import i18n from "./i18n";
+import { __t } from "./other";
+export const Messages = {
+  hello: (): string => "Hello",
+};`;
+
+    const transformedCode = transformTypeScript(input, {
+      hoistTranslator: true,
+      runtimeImport: { from: "./i18n", name: "i18n" },
+    });
+
+    expect(transformedCode).toContain(
+      'import { __t } from "./other";\nconst __t2 = (key: string, options?: any) => i18n.t(key, options);\n'
+    );
+    expect(transformedCode).toContain("hello: (): string => __t2(");
+  });
+
+  it("declares the translator without type annotations in JavaScript files", () => {
+    const input = `export const Messages = {
+  hello: () => "Hello",
+};`;
+
+    const result = transformMessages(input, "app.messages.js", {
+      argMode: "named",
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+      hoistTranslator: true,
+    });
+
+    expect(result.code).toContain("const __t = (key, options) => i18next.t(key, options);\n");
+  });
+
+  it("keeps debug markers and default values around the hoisted call", () => {
+    const input = `export const Messages = {
+  hello: (): string => "Hello",
+};`;
+
+    const transformedCode = transformTypeScript(input, { hoistTranslator: true, debug: true, setDefaultValue: true });
+
+    expect(transformedCode).toMatch(/`~~\$\{__t\("\w+", \{\s*defaultValue: "Hello"\s*\}\)\}~~`/);
+  });
+
+  it("maps the rewritten messages back to their original lines", () => {
+    const input = `export const Messages = {
+  hello: (): string => "Hello",
+};`;
+
+    const result = transformMessages(input, "test.messages.ts", {
+      argMode: "named",
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+      hoistTranslator: true,
+    });
+
+    // The import and the translator declaration are prepended to the first line, so the
+    // original line 2 is still the second mapped line
+    expect(result.map.mappings.split(";")).toHaveLength(result.code.split("\n").length);
+    expect(result.code.split("\n")[3]).toContain("hello: (): string => __t(");
+    expect(result.map.mappings.split(";")[3]).not.toBe("");
+  });
+
+  it("doesn't declare a translator when only rich-text messages are transformed", () => {
+    const input = `export const Messages = {
+  /** @richText */
+  terms: (): string => "Read the <link>terms</link>",
+};`;
+
+    const transformedCode = transformTypeScript(input, { hoistTranslator: true });
+
+    expect(transformedCode).not.toContain("__t");
+  });
+});
+
+describe("keyStrategy option", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("uses the object path of each message as its key", () => {
+    const input = `export const LoginMessages = {
+  errorInvalid: (): string => "Invalid password",
+  form: {
+    title: (): string => "Sign in",
+  },
+};
+export class AccountMessages {
+  static logout = (): string => "Log out";
+}
+export function farewell(): string {
+  return "Goodbye";
+}`;
+
+    const transformedCode = transformTypeScript(input, { keyStrategy: "path" });
+
+    expect(transformedCode).toContain('errorInvalid: (): string => i18next.t("LoginMessages.errorInvalid")');
+    expect(transformedCode).toContain('title: (): string => i18next.t("LoginMessages.form.title")');
+    expect(transformedCode).toContain('logout = (): string => i18next.t("AccountMessages.logout")');
+    expect(transformedCode).toContain('return i18next.t("farewell");');
+    expect(i18nStore.all().get("LoginMessages.form.title")?.source).toBe("Sign in");
+  });
+
+  it("gives equal messages at different paths their own keys", () => {
+    const input = `export const Messages = {
+  save: (): string => "Save",
+  dialog: {
+    save: (): string => "Save",
+  },
+};`;
+
+    const transformedCode = transformTypeScript(input, { keyStrategy: "path" });
+
+    expect(transformedCode).toContain('i18next.t("Messages.save")');
+    expect(transformedCode).toContain('i18next.t("Messages.dialog.save")');
+  });
+
+  it("reports different messages at the same path in two files as a readable key collision", () => {
+    transformTypeScript(`export const Messages = { title: (): string => "Orders" };`, { keyStrategy: "path" });
+    transformTypeScript(`export const Messages = { title: (): string => "Cart" };`, { keyStrategy: "path" });
+
+    expect(i18nStore.collisions()).toEqual([
+      expect.objectContaining({
+        id: "Messages.title",
+        messages: [expect.objectContaining({ source: "Cart" }), expect.objectContaining({ source: "Orders" })],
+        readable: true,
+      }),
+    ]);
+  });
 
-    // Get the actual hashes that were generated
-    const actualHashes = entries.map((e) => e.id);
-    expect(transformedCode).toContain(`i18next.t("${actualHashes[0]}")`);
-    expect(transformedCode).toContain(`i18next.t("${actualHashes[1]}")`);
+  it("hashes with the configured algorithm", () => {
+    const input = `export const Messages = {
+  hello: (): string => "Hello",
+};`;
+
+    expect(transformTypeScript(input, { keyStrategy: "sha256" })).toContain(
+      `i18next.t("${stableHash("Hello", { hashLength: 10, algorithm: "sha256" })}")`
+    );
+    expect(transformTypeScript(input, { keyStrategy: "fast" })).toContain(
+      `i18next.t("${stableHash("Hello", { hashLength: 10, algorithm: "fast" })}")`
+    );
+  });
+
+  it("calls a custom key function with the message", () => {
+    const input = `export const Messages = {
+  /** @translationContext button */
+  hello: (): string => "Hello",
+};`;
+    const keyStrategy = jest.fn(
+      ({ source, translationContext, path }: { source: string; translationContext?: string; path?: string }) =>
+        `${path}|${translationContext}|${source.toLowerCase()}`
+    );
+
+    const transformedCode = transformTypeScript(input, { keyStrategy });
+
+    expect(keyStrategy).toHaveBeenCalledWith({
+      source: "Hello",
+      translationContext: "button",
+      path: "Messages.hello",
+      hashLength: 10,
+    });
+    expect(transformedCode).toContain('i18next.t("Messages.hello|button|hello")');
+  });
+
+  it("rejects an empty key from a custom key function", () => {
+    const input = `export const Messages = {
+  hello: (): string => "Hello",
+};`;
+
+    expect(() => transformTypeScript(input, { keyStrategy: () => "" })).toThrow(
+      'keyStrategy returned an invalid key for "Hello": ""'
+    );
+  });
+});
+
+describe("autoContext option", () => {
+  const input = `export const DialogMessages = {
+  close: (): string => "Close",
+  footer: {
+    close: (): string => "Close",
+  },
+  /** @translationContext toolbar */
+  dismiss: (): string => "Close",
+};
+export function closeLabel(): string {
+  return "Close";
+}`;
+
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  function contexts() {
+    return Array.from(i18nStore.all().values())
+      .map((entry) => entry.translationContext)
+      .sort();
+  }
+
+  it("derives the context from the file path", () => {
+    const transformedCode = transformTypeScript(input, { autoContext: "file" });
+
+    expect(contexts()).toEqual(["test.messages", "toolbar"]);
+    expect(transformedCode).toContain(
+      `close: (): string => i18next.t("${stableHash("Close", { context: "test.messages", hashLength: 10 })}")`
+    );
+  });
+
+  it("derives the context from the enclosing object", () => {
+    transformTypeScript(input, { autoContext: "object" });
+
+    // Top-level functions have no enclosing object
+    expect(contexts()).toEqual(["DialogMessages", "DialogMessages.footer", "toolbar", undefined]);
+  });
+
+  it("combines the file path and the enclosing object", () => {
+    transformTypeScript(input, { autoContext: "file+object" });
+
+    expect(contexts()).toEqual([
+      "test.messages",
+      "test.messages:DialogMessages",
+      "test.messages:DialogMessages.footer",
+      "toolbar",
+    ]);
+  });
+
+  it("doesn't derive a context with none", () => {
+    transformTypeScript(input, { autoContext: "none" });
+
+    expect(contexts()).toEqual(["toolbar", undefined]);
+  });
+
+  it("makes file paths relative to rootDir instead of the working directory", () => {
+    const result = transformMessages(input, "/project/src/dialog.messages.ts", {
+      argMode: "named",
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+      autoContext: "file",
+      rootDir: "/project",
+    });
+
+    expect(contexts()).toEqual(["src/dialog.messages", "toolbar"]);
+    expect(result.messages[0].ref.file).toBe("src/dialog.messages.ts");
+  });
+});
+
+describe("file- and object-level directives", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  function entry(source: string) {
+    return Array.from(i18nStore.all().values()).find((e) => e.source === source);
+  }
+
+  it("applies an object's @translationContext to every message inside it", () => {
+    const input = `/** @translationContext dialog */
+export const DialogMessages = {
+  close: (): string => "Close",
+  /** @translationContext toolbar button */
+  dismiss: (): string => "Dismiss",
+};`;
+
+    transformTypeScript(input, {});
+
+    expect(entry("Close")?.translationContext).toBe("dialog");
+    expect(entry("Dismiss")?.translationContext).toBe("toolbar button");
+  });
+
+  it("applies file header directives to every message in the file", () => {
+    const input = `/**
+ * @namespace common
+ * @translationContext settings
+ */
+import { something } from "./somewhere";
+
+export const Messages = {
+  save: (): string => "Save",
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(entry("Save")).toMatchObject({ namespace: "common", translationContext: "settings" });
+    expect(transformedCode).toContain('ns: "common"');
+  });
+
+  it("skips the messages of an object marked @noTranslate unless they opt back in", () => {
+    const input = `/** @noTranslate */
+export const DebugMessages = {
+  trace: (): string => "Trace",
+  /** @noTranslate false */
+  report: (): string => "Report a problem",
+};`;
+
+    const transformedCode = transformTypeScript(input, {});
+
+    expect(transformedCode).toContain('trace: (): string => "Trace"');
+    expect(entry("Trace")).toBeUndefined();
+    expect(entry("Report a problem")).toBeDefined();
+  });
+
+  it("overrides argMode and setDefaultValue for the messages they cover", () => {
+    const input = `/**
+ * @argMode indexed
+ * @setDefaultValue
+ */
+export const Messages = {
+  greet: (name: string): string => \`Hello \${name}\`,
+  /** @argMode named */
+  bye: (name: string): string => \`Bye \${name}\`,
+  /** @setDefaultValue false */
+  plain: (): string => "Plain",
+};`;
+
+    const transformedCode = transformTypeScript(input, { argMode: "named", setDefaultValue: false });
+
+    expect(entry("Hello {0}")).toBeDefined();
+    expect(transformedCode).toContain('defaultValue: "Hello {0}"');
+    expect(transformedCode).toContain('"0": name');
+    expect(entry("Bye {name}")).toBeDefined();
+    expect(transformedCode).toContain('defaultValue: "Bye {name}"');
+    expect(transformedCode).not.toContain('defaultValue: "Plain"');
+  });
+});
+
+describe("hashNormalization option", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("keeps the key of a message re-wrapped over several lines", () => {
+    const input = `export const Messages = {
+  short: (): string => "You have {count, plural, one {# file} other {# files}}",
+  wrapped: (): string => \`You have {count, plural,
+    one {# file}
+    other {# files}
+  }\`,
+};`;
+
+    const transformedCode = transformTypeScript(input, { hashNormalization: true });
+
+    const key = stableHash("You have{count,plural,one{# file}other{# files}}", { hashLength: 10 });
+    expect(transformedCode.match(new RegExp(`i18next\\.t\\("${key}"`, "g"))).toHaveLength(2);
+    expect(i18nStore.collisions()).toEqual([]);
+  });
+
+  it("only applies the configured kinds of normalization", () => {
+    const input = `export const Messages = {
+  done: (): string => "It''s  done",
+};`;
+
+    const transformedCode = transformTypeScript(input, { hashNormalization: { quotes: true } });
+
+    expect(transformedCode).toContain(`i18next.t("${stableHash("It's  done", { hashLength: 10 })}")`);
+  });
+
+  it("records variants of one message in different files as a single entry", () => {
+    const options = { argMode: "named" as const, setDefaultValue: false, debug: false, hashLength: 10 };
+    const store = new I18nStore();
+    transformMessages(
+      `export const A = {\n  /** On the inbox */\n  title: (): string => "Your   inbox",\n};`,
+      "src/a.messages.ts",
+      { ...options, hashNormalization: true, store }
+    );
+    transformMessages(
+      `export const B = {\n  /** On the sidebar */\n  title: (): string => "Your inbox",\n};`,
+      "src/b.messages.ts",
+      { ...options, hashNormalization: true, store }
+    );
+
+    const entries = Array.from(store.all().values());
+    expect(entries).toHaveLength(1);
+    expect(entries[0].id).toBe(stableHash("Your inbox", { hashLength: 10 }));
+    expect(Array.from(entries[0].refs).sort()).toEqual(["src/a.messages.ts:3:24", "src/b.messages.ts:3:24"]);
+    expect(Array.from(entries[0].extractedComments).sort()).toEqual(["On the inbox", "On the sidebar"]);
+  });
+});
+
+describe("store option", () => {
+  it("records messages in the given store and returns them", () => {
+    i18nStore.clear();
+    const store = new I18nStore();
+
+    const result = transformMessages(
+      `export const Messages = {
+  /** Shown on the inbox */
+  title: (): string => "Inbox",
+};`,
+      "src/test.messages.ts",
+      { argMode: "named", setDefaultValue: false, debug: false, hashLength: 10, store }
+    );
+
+    expect(Array.from(store.all().values()).map((entry) => entry.source)).toEqual(["Inbox"]);
+    expect(i18nStore.all().size).toBe(0);
+    expect(result.messages).toEqual([
+      expect.objectContaining({
+        id: stableHash("Inbox", { hashLength: 10 }),
+        source: "Inbox",
+        ref: { file: "src/test.messages.ts", line: 3, column: 24 },
+        comments: ["Shown on the inbox"],
+      }),
+    ]);
+  });
+});
+
+describe("keyLock option", () => {
+  const input = `export const Messages = {
+  title: (): string => "Receive",
+  /** @key legacy.save */
+  save: (): string => "Save",
+};`;
+
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  function transformWithLock(keyLock: any) {
+    return transformMessages(input, "src/test.messages.ts", {
+      argMode: "named",
+      setDefaultValue: false,
+      debug: false,
+      hashLength: 10,
+      keyLock,
+    });
+  }
+
+  it("keeps the locked key of a message whose text changed", () => {
+    const result = transformWithLock({
+      version: 1,
+      messages: { "src/test.messages.ts#Messages.title": { key: "abcdef1234", source: "Recieve" } },
+    });
+
+    expect(result.code).toContain('title: (): string => i18next.t("abcdef1234")');
+    expect(i18nStore.all().get("abcdef1234")?.source).toBe("Receive");
+  });
+
+  it("lists the lock entries of messages without an explicit key", () => {
+    const result = transformWithLock({ version: 1, messages: {} });
+
+    expect(result.lockEntries).toEqual({
+      "src/test.messages.ts#Messages.title": {
+        key: stableHash("Receive", { hashLength: 10 }),
+        source: "Receive",
+        translationContext: undefined,
+      },
+    });
+  });
 
-    // The current implementation might not inherit context from nested object properties
-    // This is a limitation of the current transformer
-    // For now, let's verify that the functions are transformed correctly, even without context inheritance
+  it("doesn't list lock entries without a lock", () => {
+    expect(transformWithLock(undefined).lockEntries).toBeUndefined();
   });
 });
 
@@ -0,0 +1,40 @@
+import { validateMessage } from "../validation";
+import type { MessageParameter } from "../helpers";
+
+function param(name: string, isRest = false): MessageParameter {
+  return { name, binding: name, type: "string", isRest };
+}
+
+describe("validateMessage", () => {
+  it("accepts messages whose placeholders match the parameters", () => {
+    expect(validateMessage("Hello {name}", [param("name")], "named")).toEqual([]);
+    expect(
+      validateMessage("{count, plural, one {# {item}} other {# {item}s}}", [param("count"), param("item")], "named")
+    ).toEqual([]);
+    expect(validateMessage("{0} of {1}", [param("done"), param("total")], "indexed")).toEqual([]);
+  });
+
+  it("reports ICU syntax errors", () => {
+    expect(validateMessage("Hello {name", [param("name")], "named")).toEqual([
+      'Invalid ICU message "Hello {name": Unclosed argument "name" at offset 6',
+    ]);
+  });
+
+  it("reports placeholders that don't match a parameter, and unused parameters", () => {
+    expect(validateMessage("Hello {nmae}", [param("name")], "named")).toEqual([
+      'Placeholder {nmae} in "Hello {nmae}" does not match any parameter (expected one of: name)',
+      'Parameter "name" is not used in "Hello {nmae}"',
+    ]);
+  });
+
+  it("checks positions in indexed mode", () => {
+    expect(validateMessage("{0} and {2}", [param("a"), param("b")], "indexed")).toEqual([
+      'Placeholder {2} in "{0} and {2}" does not match any parameter (expected one of: 0, 1)',
+      'Parameter "b" is not used in "{0} and {2}"',
+    ]);
+  });
+
+  it("allows unknown named placeholders when a rest element can provide them", () => {
+    expect(validateMessage("{name} {extra}", [param("name"), param("rest", true)], "named")).toEqual([]);
+  });
+});
@@ -23,10 +23,51 @@
  * ```
  */
 
+import path from "path";
 import ts from "typescript";
 import MagicString from "magic-string";
 import { stringPool } from "../stringPool";
-import { shouldTransformNode, generateMessageId, recordMessage, extractTranslationContext } from "./helpers";
+import { toNativeMessage, NativeMessage, IcuMode } from "../nativeFormat";
+import { renameIcuArguments, IcuSyntaxError } from "../icu";
+import type { KeyStrategy } from "../keyStrategy";
+import { normalizeForHash, resolveHashNormalization } from "../hash";
+import type { HashNormalization } from "../hash";
+import { findLockedKey, lockIdentity } from "../keyLock";
+import type { KeyLock, KeyLockEntry } from "../keyLock";
+import type { I18nStore, MessageRecord } from "../i18nStore";
+import {
+  shouldTransformNode,
+  explainSkippedMessage,
+  generateMessageId,
+  recordMessage,
+  extractTranslationContext,
+  getMessageParameters,
+  resolveRuntimeBinding,
+  extractNamespace,
+  extractExplicitKey,
+  extractArgMode,
+  extractSetDefaultValue,
+  getMessageRef,
+  isRichTextMessage,
+  extractRichTextTags,
+  resolveTranslatorName,
+  getMessagePath,
+} from "./helpers";
+import type { MessageFunction, MessageContainer, MessageParameter, AutoContext } from "./helpers";
+import { getTypeCheckedSource, createConstantResolver } from "./program";
+import { validateMessage } from "./validation";
+
+/** Module that provides the i18next instance used by transformed code. */
+export type RuntimeImport = {
+  /** Module specifier to import from, e.g. "i18next" or "@/i18n/instance" */
+  from: string;
+  /** Name of the instance binding, e.g. "i18next" or "i18n" */
+  name: string;
+  /** Whether the instance is the module's default export or a named export. Defaults to "default". */
+  kind?: "default" | "named";
+};
+
+const DEFAULT_RUNTIME_IMPORT: RuntimeImport = { from: "i18next", name: "i18next", kind: "default" };
 
 export type TransformOptions = {
   /** How to pass runtime args into i18next.t */
@@ -37,8 +78,63 @@ export type TransformOptions = {
   debug: boolean;
   /** Length of generated hash IDs */
   hashLength: number;
+  /** How message keys are computed. Defaults to a SHA-1 hash of the text and context. */
+  keyStrategy?: KeyStrategy;
+  /** Normalize message text before hashing, so whitespace and ICU formatting edits keep the key. True enables whitespace and ICU punctuation. */
+  hashNormalization?: boolean | HashNormalization;
+  /** Where transformed code imports the i18next instance from. Defaults to the `i18next` default export. */
+  runtimeImport?: RuntimeImport;
+  /** Namespace for messages without a `@namespace` tag. Undefined = i18next's default namespace. */
+  defaultNamespace?: string;
+  /** Derive the namespace of untagged messages from the file name (e.g. "checkout.messages.ts" -> "checkout") */
+  namespaceFromPath?: boolean;
+  /** Translation context for messages without `@translationContext`, from their file and/or enclosing object */
+  autoContext?: AutoContext;
+  /**
+   * Directory that file paths in derived contexts, PO references and key lock entries are relative
+   * to, so they don't depend on where the tools run. Defaults to the working directory.
+   */
+  rootDir?: string;
+  /** "native" targets i18next without i18next-icu: plural variables are passed as `count` and defaults are converted */
+  icuMode?: IcuMode;
+  /**
+   * Path to a tsconfig.json. When set, files that are part of its program are analyzed with the
+   * type checker so `const` strings and enum members (including imported ones) are inlined into messages.
+   */
+  tsconfig?: string;
+  /**
+   * Emit one `const __t = (key, options) => i18next.t(key, options)` per file and call `__t("key", ...)`
+   * instead of repeating `i18next.t(...)` for every message, which shrinks message-heavy files.
+   */
+  hoistTranslator?: boolean;
+  /**
+   * Key lock (see `keyLock` in the config). Locked messages keep their key when their text changes,
+   * and the result lists the lock entries of the file's messages.
+   */
+  keyLock?: KeyLock;
+  /**
+   * Store that collects the file's messages. The plugins pass the store of the current build;
+   * defaults to the global `i18nStore`.
+   */
+  store?: I18nStore;
+};
+
+/** A problem found in a message, positioned at the message's string in the source file. */
+export type MessageDiagnostic = {
+  message: string;
+  /** Repo-relative POSIX path, as used in PO references */
+  file: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
 };
 
+/** Format a diagnostic as "file:line:column - message" for bundler warnings and errors. */
+export function formatDiagnostic(diagnostic: MessageDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.message}`;
+}
+
 export type TransformResult = {
   /** Transformed code */
   code: string;
@@ -46,8 +142,40 @@ export type TransformResult = {
   map: any;
   /** Whether any transformations were made */
   didTransform: boolean;
+  /** Other files whose constants were inlined into messages; bundlers should watch them */
+  dependencies?: string[];
+  /** ICU syntax errors and placeholder/parameter mismatches found in the messages */
+  diagnostics: MessageDiagnostic[];
+  /** Message-like functions that were left untranslated because their body isn't a supported string shape */
+  skipped: MessageDiagnostic[];
+  /** Messages recorded in the store, so bundlers can cache them with the module */
+  messages: MessageRecord[];
+  /** Lock entries of the messages that have an object path, by identity. Only set when `keyLock` is given. */
+  lockEntries?: Record<string, KeyLockEntry>;
 };
 
+/** Namespace derived from a file name: the base name up to its first dot. */
+function namespaceFromFilename(filename: string): string {
+  return path.basename(filename).split(".")[0];
+}
+
+/**
+ * Rewrite named placeholders to the position of the parameter they refer to, for indexed mode.
+ * Invalid ICU is returned unchanged so validation can report it.
+ */
+function toIndexedPlaceholders(message: string, params: readonly MessageParameter[]): string {
+  const values = params.filter((p) => !p.isRest);
+  try {
+    return renameIcuArguments(message, (name) => {
+      const index = values.findIndex((p) => p.name === name);
+      return index === -1 ? undefined : String(index);
+    });
+  } catch (error) {
+    if (error instanceof IcuSyntaxError) return message;
+    throw error;
+  }
+}
+
 /**
  * Global store for tracking seen strings and their hashes within a single transformation.
  * This ensures consistent hash generation across multiple message functions.
@@ -57,6 +185,9 @@ type GlobalStore = {
   reverse: Map<string, string>;
 };
 
+/** Options resolved per message, after applying the JSDoc directives that cover it. */
+type MessageOptions = Pick<TransformOptions, "argMode" | "setDefaultValue">;
+
 /**
  * Core transformation function that processes i18n message files.
  *
@@ -65,7 +196,7 @@ type GlobalStore = {
  * 2. Identifies transformable message functions
  * 3. Generates stable hash IDs for each message
  * 4. Rewrites functions to i18next.t() calls using MagicString
- * 5. Injects i18next import if needed
+ * 5. Injects the i18next instance import if needed
  * 6. Generates accurate source maps
  *
  * @param code - Source code to transform
@@ -78,7 +209,20 @@ export function transformMessages(code: string, filename: string, options: Trans
   // Note: We use Latest to support all modern syntax during parsing.
   // This is safe because we only analyze the AST (not generate code).
   // The actual transpilation target is handled by the bundler (Rollup/Webpack/etc).
-  const sf = ts.createSourceFile(filename, code, ts.ScriptTarget.Latest, /*setParentNodes*/ true);
+  // With a tsconfig, use the program's source file so the type checker can resolve constants.
+  const typed = options.tsconfig ? getTypeCheckedSource(options.tsconfig, filename, code) : undefined;
+  const sf = typed?.sourceFile ?? ts.createSourceFile(filename, code, ts.ScriptTarget.Latest, /*setParentNodes*/ true);
+  const dependencies = new Set<string>();
+  const diagnostics: MessageDiagnostic[] = [];
+  const skipped: MessageDiagnostic[] = [];
+  const lockEntries: Record<string, KeyLockEntry> = {};
+  const messages: MessageRecord[] = [];
+  const hashNormalization = options.hashNormalization ? resolveHashNormalization(options.hashNormalization) : undefined;
+  const resolveConstant =
+    typed &&
+    createConstantResolver(typed.checker, (file) => {
+      if (file !== sf.fileName) dependencies.add(path.resolve(file));
+    });
 
   // Initialize MagicString for tracking transformations
   const s = new MagicString(code);
@@ -89,7 +233,11 @@ export function transformMessages(code: string, filename: string, options: Trans
 
   // Track transformation state
   let didRewrite = false;
-  const hadI18nextImport = /\bimport\s+i18next\b/.test(code);
+  // Rich-text messages become plain <Trans> props and don't need the runtime import
+  let usesRuntime = false;
+  const runtime = resolveRuntimeBinding(sf, options.runtimeImport ?? DEFAULT_RUNTIME_IMPORT);
+  const translatorName = options.hoistTranslator ? resolveTranslatorName(sf) : undefined;
+  const fileNamespace = options.namespaceFromPath ? namespaceFromFilename(filename) : options.defaultNamespace;
 
   // Local store for this file's transformations
   const globalStore: GlobalStore = {
@@ -107,68 +255,124 @@ export function transformMessages(code: string, filename: string, options: Trans
   /**
    * Build the args expression for i18next.t() based on function parameters.
    * Supports both "indexed" ({ "0": value }) and "named" ({ value }) modes.
+   * Destructured parameters are flattened so each bound field becomes its own value.
+   * When `countArgument` names a plural variable other than `count`, it is also passed as `count`
+   * so native i18next can pick the plural form.
    */
-  function buildArgsExpr(params: readonly ts.ParameterDeclaration[]): ts.Expression | undefined {
+  function buildArgsExpr(
+    fn: MessageFunction,
+    argMode: "indexed" | "named",
+    countArgument?: string
+  ): ts.Expression | undefined {
+    const params = getMessageParameters(fn, sf);
     if (params.length === 0) return undefined;
 
-    if (options.argMode === "indexed") {
-      const indexedProps: ts.PropertyAssignment[] = [];
-      params.forEach((p, index) => {
-        if (ts.isIdentifier(p.name)) {
-          const key = f.createStringLiteral(index.toString());
-          const value = f.createIdentifier(p.name.text);
-          indexedProps.push(f.createPropertyAssignment(key, value));
-        }
+    let props: ts.ObjectLiteralElementLike[];
+    if (argMode === "indexed") {
+      // Rest elements have no position, so they can't be addressed in indexed mode
+      props = params
+        .filter((p) => !p.isRest)
+        .map((p, index) =>
+          f.createPropertyAssignment(f.createStringLiteral(index.toString()), f.createIdentifier(p.binding))
+        );
+    } else {
+      props = params.map((p): ts.ObjectLiteralElementLike => {
+        if (p.isRest) return f.createSpreadAssignment(f.createIdentifier(p.binding));
+        if (p.name === p.binding) return f.createShorthandPropertyAssignment(p.binding);
+        const key = /^[A-Za-z_$][\w$]*$/.test(p.name) ? f.createIdentifier(p.name) : f.createStringLiteral(p.name);
+        return f.createPropertyAssignment(key, f.createIdentifier(p.binding));
       });
-      if (indexedProps.length === 0) return undefined;
-      return f.createObjectLiteralExpression(indexedProps, true);
     }
 
-    // "named" mode
-    const namedProps: ts.ShorthandPropertyAssignment[] = [];
-    for (const p of params) {
-      if (ts.isIdentifier(p.name)) {
-        namedProps.push(f.createShorthandPropertyAssignment(p.name));
+    if (countArgument !== undefined && countArgument !== "count") {
+      const values = params.filter((p) => !p.isRest);
+      const source =
+        argMode === "indexed" ? values[Number(countArgument)] : values.find((p) => p.name === countArgument);
+      const hasCount = argMode === "named" && values.some((p) => p.name === "count");
+      if (source && !hasCount) {
+        props.push(f.createPropertyAssignment(f.createIdentifier("count"), f.createIdentifier(source.binding)));
       }
     }
-    if (namedProps.length === 0) return undefined;
-    return f.createObjectLiteralExpression(namedProps, true);
+
+    if (props.length === 0) return undefined;
+    return f.createObjectLiteralExpression(props, true);
   }
 
   /**
-   * Create an i18next.t() call expression.
-   * Optionally includes defaultValue and debug markers.
+   * The defaultValue option(s) for a message. In native mode plural messages get one
+   * `defaultValue_<suffix>` per form, with `defaultValue` holding the "other" form.
    */
-  function makeI18nextCall(hashId: string, argsExpr?: ts.Expression, originalString?: string): ts.Expression {
-    const i18nextIdent = f.createIdentifier("i18next");
-    const tAccess = f.createPropertyAccessExpression(i18nextIdent, "t");
+  function defaultValueProps(original: string, native: NativeMessage | null): Array<[string, string]> {
+    if (!native) return [["defaultValue", original]];
+    const other = native.forms.find((form) => form.suffix === "_other") ?? native.forms[0];
+    return [
+      ["defaultValue", other.text],
+      ...native.forms
+        .filter((form) => form !== other)
+        .map((form): [string, string] => [`defaultValue${form.suffix}`, form.text]),
+    ];
+  }
+
+  /**
+   * Create the `<Trans>` props for a rich-text message: `{ i18nKey, ns, values, defaults }`.
+   * The translation is looked up by `<Trans>`, which also renders the tags as components.
+   */
+  function makeRichTextProps(
+    hashId: string,
+    argsExpr?: ts.Expression,
+    defaultValue?: string,
+    namespace?: string
+  ): ts.Expression {
+    const props: ts.ObjectLiteralElementLike[] = [
+      f.createPropertyAssignment(f.createIdentifier("i18nKey"), f.createStringLiteral(hashId)),
+    ];
+    if (namespace) {
+      props.push(f.createPropertyAssignment(f.createIdentifier("ns"), f.createStringLiteral(namespace)));
+    }
+    if (argsExpr) {
+      props.push(f.createPropertyAssignment(f.createIdentifier("values"), argsExpr));
+    }
+    if (defaultValue) {
+      props.push(f.createPropertyAssignment(f.createIdentifier("defaults"), f.createStringLiteral(defaultValue)));
+    }
+    return f.createObjectLiteralExpression(props, true);
+  }
+
+  /** `i18next.t` on the configured runtime instance. */
+  function runtimeTranslator(): ts.PropertyAccessExpression {
+    let instance: ts.Expression = f.createIdentifier(runtime.local);
+    if (runtime.member) instance = f.createPropertyAccessExpression(instance, runtime.member);
+    return f.createPropertyAccessExpression(instance, "t");
+  }
+
+  /**
+   * Create an i18next.t() call expression on the configured runtime instance.
+   * Optionally includes defaultValue, the namespace and debug markers.
+   */
+  function makeI18nextCall(
+    hashId: string,
+    argsExpr?: ts.Expression,
+    defaultValues?: Array<[string, string]>,
+    namespace?: string
+  ): ts.Expression {
+    const tAccess = translatorName ? f.createIdentifier(translatorName) : runtimeTranslator();
     const callArgs: ts.Expression[] = [f.createStringLiteral(hashId)];
 
-    // Build options object if needed (for args or defaultValue)
-    if ((options.setDefaultValue && originalString) || argsExpr) {
-      let optionsExpr: ts.Expression;
-
-      if (argsExpr && ts.isObjectLiteralExpression(argsExpr)) {
-        const properties = [...argsExpr.properties];
-        if (options.setDefaultValue && originalString) {
-          const defaultValueProp = f.createPropertyAssignment(
-            f.createIdentifier("defaultValue"),
-            f.createStringLiteral(originalString)
-          );
-          properties.unshift(defaultValueProp);
-        }
-        optionsExpr = f.createObjectLiteralExpression(properties, true);
-      } else {
-        const properties: ts.ObjectLiteralElementLike[] = [];
-        if (options.setDefaultValue && originalString) {
-          properties.push(
-            f.createPropertyAssignment(f.createIdentifier("defaultValue"), f.createStringLiteral(originalString))
-          );
-        }
-        optionsExpr = f.createObjectLiteralExpression(properties, true);
+    // Options that precede the interpolation values
+    const leadingProps: ts.ObjectLiteralElementLike[] = [];
+    if (defaultValues) {
+      for (const [name, value] of defaultValues) {
+        leadingProps.push(f.createPropertyAssignment(f.createIdentifier(name), f.createStringLiteral(value)));
       }
+    }
+    if (namespace) {
+      leadingProps.push(f.createPropertyAssignment(f.createIdentifier("ns"), f.createStringLiteral(namespace)));
+    }
 
-      callArgs.push(optionsExpr);
+    // Build options object if needed (for args, defaultValue or namespace)
+    if (leadingProps.length > 0) {
+      const argProps = argsExpr && ts.isObjectLiteralExpression(argsExpr) ? argsExpr.properties : [];
+      callArgs.push(f.createObjectLiteralExpression([...leadingProps, ...argProps], true));
     } else if (argsExpr) {
       callArgs.push(argsExpr);
     }
@@ -185,31 +389,75 @@ export function transformMessages(code: string, filename: string, options: Trans
     return call;
   }
 
+  /**
+   * Transform a message function, or report why a message-like function had to be skipped.
+   */
+  function transformCandidate(containerNode: MessageContainer, fn: MessageFunction): void {
+    // `@argMode` and `@setDefaultValue` directives override the options for the messages they cover
+    const messageOptions: MessageOptions = {
+      argMode: extractArgMode(fn, sf) ?? options.argMode,
+      setDefaultValue: extractSetDefaultValue(fn, sf) ?? options.setDefaultValue,
+    };
+    const original = shouldTransformNode(containerNode, fn, sf, messageOptions.argMode, resolveConstant);
+    if (original !== null) {
+      transformFunction(containerNode, fn, original, messageOptions);
+      return;
+    }
+
+    const reason = explainSkippedMessage(containerNode, fn, sf, messageOptions.argMode, resolveConstant);
+    if (reason !== null) {
+      // Exported consts are recorded on their statement; the name is on the declaration
+      const nameNode = ts.isVariableStatement(containerNode)
+        ? (fn.parent as ts.VariableDeclaration).name
+        : containerNode.name;
+      const name = nameNode ? ` "${nameNode.getText(sf)}"` : "";
+      skipped.push({
+        message: `Message${name} is not translated: ${reason}`,
+        ...getMessageRef(sf, containerNode, fn, options.rootDir),
+      });
+    }
+  }
+
   /**
    * Visit all nodes in the AST and transform matching patterns.
    */
   function visit(node: ts.Node): void {
-    // Pattern 1: PropertyAssignment with ArrowFunction/FunctionExpression
-    // e.g., greeting: (name) => `Hello ${name}`
+    // Pattern 1: Object PropertyAssignment or class PropertyDeclaration with ArrowFunction/FunctionExpression
+    // e.g., greeting: (name) => `Hello ${name}` or static greeting = (name) => `Hello ${name}`
     if (
-      ts.isPropertyAssignment(node) &&
+      (ts.isPropertyAssignment(node) || ts.isPropertyDeclaration(node)) &&
+      node.initializer &&
       (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))
     ) {
       const fn = node.initializer;
-      const original = shouldTransformNode(node, fn, sf);
+      transformCandidate(node, fn);
+    }
 
-      if (original !== null) {
-        transformFunction(node, fn, original);
-      }
+    // Pattern 2: MethodDeclaration (shorthand syntax) or GetAccessorDeclaration
+    // e.g., greeting(name) { return `Hello ${name}` } or get title() { return "Dashboard" }
+    if ((ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node)) && node.body) {
+      transformCandidate(node, node);
     }
 
-    // Pattern 2: MethodDeclaration (shorthand syntax)
-    // e.g., greeting(name) { return `Hello ${name}` }
-    if (ts.isMethodDeclaration(node) && node.body) {
-      const original = shouldTransformNode(node, node, sf);
+    // Pattern 3: Top-level exported function declaration
+    // e.g., export function greeting(name: string) { return "Hello {name}" }
+    if (ts.isFunctionDeclaration(node) && node.body && node.parent === sf && isExported(node)) {
+      transformCandidate(node, node);
+    }
 
-      if (original !== null) {
-        transformFunction(node, node, original);
+    // Pattern 4: Top-level exported const with ArrowFunction/FunctionExpression
+    // e.g., export const greeting = (name: string) => "Hello {name}"
+    if (
+      ts.isVariableStatement(node) &&
+      node.parent === sf &&
+      isExported(node) &&
+      node.declarationList.flags & ts.NodeFlags.Const
+    ) {
+      for (const decl of node.declarationList.declarations) {
+        if (decl.initializer && (ts.isArrowFunction(decl.initializer) || ts.isFunctionExpression(decl.initializer))) {
+          const fn = decl.initializer;
+          transformCandidate(node, fn);
+        }
       }
     }
 
@@ -217,37 +465,101 @@ export function transformMessages(code: string, filename: string, options: Trans
     ts.forEachChild(node, visit);
   }
 
+  function isExported(node: ts.FunctionDeclaration | ts.VariableStatement): boolean {
+    return !!node.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+  }
+
   /**
    * Transform a single message function to an i18next.t() call.
    */
   function transformFunction(
-    containerNode: ts.PropertyAssignment | ts.MethodDeclaration,
-    fn: ts.ArrowFunction | ts.FunctionExpression | ts.MethodDeclaration,
-    original: string
+    containerNode: MessageContainer,
+    fn: MessageFunction,
+    extracted: string,
+    messageOptions: MessageOptions
   ): void {
-    // Extract translation context from JSDoc
-    const translationContext = extractTranslationContext(containerNode, fn, sf);
-
-    // Generate unique message ID using shared core logic
-    const id = generateMessageId(original, translationContext, globalStore, options.hashLength);
+    // Extract translation context and namespace from JSDoc
+    const translationContext = extractTranslationContext(containerNode, fn, sf, options.autoContext, options.rootDir);
+    const namespace = extractNamespace(containerNode, sf) ?? fileNamespace;
+
+    // Indexed mode passes positional args, so "{name}" is stored and emitted as "{0}"
+    const params = getMessageParameters(fn, sf);
+    const original = messageOptions.argMode === "indexed" ? toIndexedPlaceholders(extracted, params) : extracted;
+
+    // Generate unique message ID using shared core logic (or take it verbatim from @key)
+    const explicitKey = extractExplicitKey(containerNode, fn, sf);
+    const messagePath = getMessagePath(containerNode, fn);
+    const ref = getMessageRef(sf, containerNode, fn, options.rootDir);
+    // A locked message keeps its key even when its text changed
+    const identity = options.keyLock && messagePath && !explicitKey ? lockIdentity(ref.file, messagePath) : undefined;
+    const lockedKey = identity ? findLockedKey(options.keyLock!, identity, original, translationContext) : undefined;
+    const id =
+      lockedKey ??
+      generateMessageId(
+        original,
+        translationContext,
+        globalStore,
+        { hashLength: options.hashLength, keyStrategy: options.keyStrategy, hashNormalization, path: messagePath },
+        explicitKey,
+        ref,
+        options.store
+      );
+    if (identity) {
+      lockEntries[identity] = { key: id, source: original, translationContext };
+    }
 
     // Intern the string for memory efficiency
     const internedOriginal = stringPool.intern(original);
+    // The text the key was hashed from, so variants of one message share its store entry
+    const normalized =
+      hashNormalization && !explicitKey ? normalizeForHash(internedOriginal, hashNormalization) : undefined;
+    const keySource = normalized !== internedOriginal ? normalized : undefined;
 
     // Record the message in the i18n store
-    recordMessage(id, internedOriginal, translationContext, sf, containerNode, fn);
+    const richText = isRichTextMessage(containerNode, fn, sf);
+    const richTextTags = richText ? extractRichTextTags(internedOriginal) : undefined;
+    const record = recordMessage(
+      id,
+      internedOriginal,
+      translationContext,
+      sf,
+      containerNode,
+      fn,
+      ref,
+      namespace,
+      !!explicitKey,
+      richTextTags,
+      keySource,
+      options.store
+    );
+    messages.push(record);
+
+    // Check placeholders against the function signature
+    const problems = validateMessage(internedOriginal, params, messageOptions.argMode);
+    if (problems.length > 0) {
+      for (const message of problems) {
+        diagnostics.push({ message, ...ref });
+      }
+    }
 
     // Build new expression
-    const argsExpr = buildArgsExpr(fn.parameters);
-    const newExpr = makeI18nextCall(id, argsExpr, internedOriginal);
+    const native = options.icuMode === "native" ? toNativeMessage(internedOriginal) : null;
+    const argsExpr = buildArgsExpr(fn, messageOptions.argMode, native?.countArgument);
+    const defaultValues =
+      messageOptions.setDefaultValue && internedOriginal ? defaultValueProps(internedOriginal, native) : undefined;
+    const newExpr = richText
+      ? makeRichTextProps(id, argsExpr, defaultValues?.[0][1], namespace)
+      : makeI18nextCall(id, argsExpr, defaultValues, namespace);
 
     // Determine what to replace based on function structure
     if (ts.isArrowFunction(fn) && !ts.isBlock(fn.body)) {
-      // Arrow function with expression body: () => "string"
+      // Arrow function with expression body: () => "string" (object literals need parentheses)
       const bodyStart = fn.body.getStart(sf);
       const bodyEnd = fn.body.getEnd();
-      s.overwrite(bodyStart, bodyEnd, printExpr(newExpr));
+      const body = richText ? f.createParenthesizedExpression(newExpr) : newExpr;
+      s.overwrite(bodyStart, bodyEnd, printExpr(body));
       didRewrite = true;
+      usesRuntime ||= !richText;
     } else {
       // Block body: find and replace return statement
       const body = fn.body;
@@ -258,6 +570,7 @@ export function transformMessages(code: string, filename: string, options: Trans
           const exprEnd = st.expression.getEnd();
           s.overwrite(exprStart, exprEnd, printExpr(newExpr));
           didRewrite = true;
+          usesRuntime ||= !richText;
         }
       }
     }
@@ -266,11 +579,25 @@ export function transformMessages(code: string, filename: string, options: Trans
   // Start traversal
   visit(sf);
 
-  // Inject i18next import if we made transformations and it's not already present
-  if (didRewrite && !hadI18nextImport) {
+  // Inject the runtime import if we made transformations and it's not already present
+  const nl = code.includes("\r\n") ? "\r\n" : "\n";
+  if (usesRuntime && runtime.injectImport) {
     const insertPos = sf.statements.length ? sf.statements[0].getFullStart() : 0;
-    const nl = code.includes("\r\n") ? "\r\n" : "\n";
-    s.appendLeft(insertPos, `import i18next from "i18next";${nl}`);
+    s.appendLeft(insertPos, `${runtime.injectImport}${nl}`);
+  }
+
+  // Declare the hoisted translator after the imports, so the runtime instance is in scope. It reads
+  // the instance on each call, as circular imports and reassigned bindings aren't set up yet (or
+  // anymore) when the module is evaluated.
+  if (usesRuntime && translatorName) {
+    const params = /\.[cm]?tsx?$/.test(filename) ? "key: string, options?: any" : "key, options";
+    const declaration = `const ${translatorName} = (${params}) => ${printExpr(runtimeTranslator())}(key, options);`;
+    const lastImport = sf.statements.filter(ts.isImportDeclaration).pop();
+    if (lastImport) {
+      s.appendLeft(lastImport.getEnd(), `${nl}${declaration}`);
+    } else {
+      s.appendLeft(sf.statements.length ? sf.statements[0].getFullStart() : 0, `${declaration}${nl}`);
+    }
   }
 
   // Return result
@@ -279,6 +606,10 @@ export function transformMessages(code: string, filename: string, options: Trans
       code,
       map: null,
       didTransform: false,
+      diagnostics,
+      skipped,
+      messages,
+      ...(options.keyLock ? { lockEntries } : {}),
     };
   }
 
@@ -290,5 +621,10 @@ export function transformMessages(code: string, filename: string, options: Trans
       source: filename,
     }),
     didTransform: true,
+    diagnostics,
+    skipped,
+    messages,
+    ...(options.keyLock ? { lockEntries } : {}),
+    ...(dependencies.size > 0 ? { dependencies: Array.from(dependencies).sort() } : {}),
   };
 }
@@ -0,0 +1,60 @@
+import { parseIcu, IcuSyntaxError } from "../icu";
+import type { IcuNode } from "../icu";
+import type { MessageParameter } from "./helpers";
+
+/** Collect the argument names referenced anywhere in the message, including inside plural/select branches. */
+function collectArgumentNames(nodes: IcuNode[], out: Set<string>): Set<string> {
+  for (const node of nodes) {
+    if (node.type === "argument") {
+      out.add(node.name);
+    } else if (node.type !== "literal" && node.type !== "pound") {
+      out.add(node.name);
+      for (const branch of Object.values(node.options)) {
+        collectArgumentNames(branch, out);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Check a message against the parameters of its message function.
+ * Reports ICU syntax errors, placeholders that don't match a parameter, and parameters
+ * the message never uses. Returns one description per problem.
+ */
+export function validateMessage(
+  source: string,
+  params: readonly MessageParameter[],
+  argMode: "indexed" | "named"
+): string[] {
+  let nodes: IcuNode[];
+  try {
+    nodes = parseIcu(source);
+  } catch (error) {
+    if (error instanceof IcuSyntaxError) {
+      return [`Invalid ICU message "${source}": ${error.message} at offset ${error.offset}`];
+    }
+    throw error;
+  }
+
+  const used = collectArgumentNames(nodes, new Set());
+  const values = params.filter((p) => !p.isRest);
+  // In indexed mode placeholders are positions; in named mode they are parameter names
+  const expected = argMode === "indexed" ? values.map((_, index) => String(index)) : values.map((p) => p.name);
+  // Object rest elements can carry any property, so unknown named placeholders may be valid
+  const acceptsAnyName = argMode === "named" && values.length !== params.length;
+
+  const problems: string[] = [];
+  for (const name of used) {
+    if (!expected.includes(name) && !acceptsAnyName) {
+      const hint = expected.length > 0 ? ` (expected one of: ${expected.join(", ")})` : "";
+      problems.push(`Placeholder {${name}} in "${source}" does not match any parameter${hint}`);
+    }
+  }
+  values.forEach((param, index) => {
+    if (!used.has(expected[index])) {
+      problems.push(`Parameter "${param.name}" is not used in "${source}"`);
+    }
+  });
+  return problems;
+}
@@ -2,9 +2,13 @@ import { i18nextAutoKeyLoader } from "./webpack/loader";
 import { I18nextAutoKeyEmitPlugin } from "./webpack/plugin";
 import { i18nextAutoKeyRollupPlugin } from "./rollup/plugin";
 import { transformMessages } from "./common/transformer/transformer";
-import { i18nStore } from "./common/i18nStore";
+import { i18nStore, I18nStore } from "./common/i18nStore";
 import { loadConfig } from "./common/config/loadConfig";
 import { stableHash } from "./common/hash";
+import type { RichText } from "./common/richText";
+import type { KeyStrategy, KeyFunction, KeyInput } from "./common/keyStrategy";
+import type { I18nextAutoKeyHooks } from "./common/hooks";
+import type { Entry, MessageRecord, I18nStoreSnapshot } from "./common/i18nStore";
 
 // ESM named exports
 export {
@@ -13,9 +17,20 @@ export {
   i18nextAutoKeyRollupPlugin,
   transformMessages,
   i18nStore,
+  I18nStore,
   loadConfig,
   stableHash,
 };
+export type {
+  RichText,
+  KeyStrategy,
+  KeyFunction,
+  KeyInput,
+  I18nextAutoKeyHooks,
+  Entry,
+  MessageRecord,
+  I18nStoreSnapshot,
+};
 
 // Default export for Webpack loader compatibility
 export default i18nextAutoKeyLoader;
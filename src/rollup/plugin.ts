@@ -1,11 +1,23 @@
 // plugins/i18nextAutoKeyRollupPlugin.ts
 import type { Plugin } from "rollup";
-import { i18nStore } from "../common/i18nStore";
+import { I18nStore, formatKeyCollision } from "../common/i18nStore";
 import { loadConfig } from "../common/config/loadConfig";
-import { transformMessages } from "../common/transformer/transformer";
+import { transformMessages, formatDiagnostic } from "../common/transformer/transformer";
+import { buildJsonOutputs, unsplitNamespaces, localizeOutputPath } from "../common/jsonOutput";
+import { matchesFilePatterns } from "../common/filePatterns";
+import type { FilePatterns } from "../common/filePatterns";
+import type { RuntimeImport } from "../common/transformer/transformer";
+import { invalidatePrograms } from "../common/transformer/program";
+import { keyLockPath, readKeyLock } from "../common/keyLock";
+import type { KeyLock } from "../common/keyLock";
+import { runCatalogHooks } from "../common/hooks";
+import type { I18nextAutoKeyHooks } from "../common/hooks";
 
 export type I18nextAutoKeyRollupPluginOptions = {
-  /** Pattern(s) to match files for processing. Defaults to /\.messages\.(ts|tsx)$/ */
+  /**
+   * Pattern(s) to match files for processing. Defaults to the config's `include`/`exclude` globs,
+   * or /\.messages\.(ts|tsx)$/ when the config has none.
+   */
   include?: RegExp | RegExp[];
   /** How to pass runtime args into i18next.t */
   argMode?: "indexed" | "named";
@@ -13,16 +25,46 @@ export type I18nextAutoKeyRollupPluginOptions = {
   setDefaultValue?: boolean;
   /** Wrap transformed strings with "~~" markers for visual debugging in development */
   debug?: boolean;
-  /** Path where the runtime JSON should be emitted (e.g. "locales/en.json"). */
+  /**
+   * Path where the runtime JSON should be emitted (e.g. "locales/en.json").
+   * Include "{{ns}}" (e.g. "locales/en/{{ns}}.json") to emit one file per namespace, and "{{lng}}"
+   * for the config's `sourceLocale`. Defaults to the config's `jsonOutputPath`.
+   */
   jsonOutputPath?: string;
   /** Optional top level key to wrap translations under. If undefined, translations are placed at root level. */
   topLevelKey?: string;
+  /** Module that provides the i18next instance used by transformed code. Defaults to the `i18next` package. */
+  runtimeImport?: RuntimeImport;
+  /** tsconfig.json whose program is used to resolve `const` strings and enum members in messages */
+  tsconfig?: string;
+  /** Call a single per-file `__t` helper instead of repeating `i18next.t` in every message */
+  hoistTranslator?: boolean;
+  /** Hooks for observing and post-processing the collected messages */
+  hooks?: I18nextAutoKeyHooks;
 };
 
-function matchesInclude(include: RegExp | RegExp[] | undefined, id: string): boolean {
+export type I18nextAutoKeyRollupPluginApi = {
+  /** Messages collected by the current build: the last one started when there are several environments */
+  store: I18nStore;
+  /** Messages collected in each Vite environment, e.g. "client" and "ssr" ("" for Rollup) */
+  stores: ReadonlyMap<string, I18nStore>;
+};
+
+/** Name of the Vite (6+) environment a hook runs in, or "" for Rollup and older Vite versions. */
+function environmentName(context: object): string {
+  const { environment } = context as { environment?: { name?: string } };
+  return environment?.name ?? "";
+}
+
+function matchesInclude(
+  include: RegExp | RegExp[] | undefined,
+  patterns: FilePatterns,
+  id: string,
+  rootDir: string
+): boolean {
   if (!include) {
-    // Default pattern if none provided
-    return /\.messages\.(ts|tsx)$/.test(id);
+    // The config file's globs (relative to its directory), or the default pattern if it has none
+    return patterns.include ? matchesFilePatterns(id, patterns, rootDir) : /\.messages\.(ts|tsx)$/.test(id);
   }
   const arr = Array.isArray(include) ? include : [include];
   return arr.some((re) => re.test(id));
@@ -47,6 +89,11 @@ function matchesInclude(include: RegExp | RegExp[] | undefined, id: string): boo
  *
  * Source maps work seamlessly with debuggers and error reporting tools.
  *
+ * Each Vite environment (client, SSR, ...) collects its messages in its own store (exposed as
+ * `api.stores`), so builds that share the plugin emit only their own messages. Rollup builds have
+ * no environment: give builds that run side by side, like a config array in watch mode, one
+ * plugin instance each.
+ *
  * @example Rollup
  * ```js
  * // rollup.config.js
@@ -76,34 +123,66 @@ function matchesInclude(include: RegExp | RegExp[] | undefined, id: string): boo
  * };
  * ```
  */
-export function i18nextAutoKeyRollupPlugin(options: I18nextAutoKeyRollupPluginOptions): Plugin {
-  const { config, file: configFile } = loadConfig();
+export function i18nextAutoKeyRollupPlugin(
+  options: I18nextAutoKeyRollupPluginOptions = {}
+): Plugin<I18nextAutoKeyRollupPluginApi> {
+  const { config, file: configFile, rootDir } = loadConfig();
 
+  const jsonOutputPath = options.jsonOutputPath ?? config.jsonOutputPath;
   const pluginOptions = {
     include: options.include,
     argMode: options.argMode ?? config.argMode,
     setDefaultValue: options.setDefaultValue ?? false,
     debug: options.debug ?? false,
-    jsonOutputPath: options.jsonOutputPath,
+    jsonOutputPath: jsonOutputPath && localizeOutputPath(jsonOutputPath, config.sourceLocale),
     topLevelKey: options.topLevelKey ?? config.topLevelKey,
+    runtimeImport: options.runtimeImport ?? config.runtimeImport,
+    tsconfig: options.tsconfig,
+    hoistTranslator: options.hoistTranslator ?? false,
+  };
+  const lockFile = config.keyLock ? keyLockPath(config.poOutputDirectory) : undefined;
+  let keyLock: KeyLock | undefined;
+  const stores = new Map<string, I18nStore>();
+  let lastEnvironment = "";
+  const storeFor = (environment: string) => {
+    let store = stores.get(environment);
+    if (!store) {
+      store = new I18nStore(options.hooks?.onMessageRecorded);
+      stores.set(environment, store);
+    }
+    return store;
   };
 
   return {
     name: "i18next-auto-keys",
+    api: {
+      get store() {
+        return storeFor(lastEnvironment);
+      },
+      stores,
+    },
 
     // Watch the config file for changes (works in both Rollup and Vite)
     buildStart() {
-      // Clear the store at the start of each build
-      i18nStore.clear();
+      // Clear the store of the environment at the start of each build
+      lastEnvironment = environmentName(this);
+      storeFor(lastEnvironment).clear();
+      invalidatePrograms();
 
       // Add config file as a dependency so changes trigger rebuilds
       if (configFile) {
         this.addWatchFile(configFile);
       }
+
+      // Keys of locked messages come from the lock file that extract maintains
+      if (lockFile) {
+        keyLock = readKeyLock(lockFile);
+        this.addWatchFile(lockFile);
+      }
     },
 
     transform(code, id) {
-      if (!matchesInclude(pluginOptions.include, id)) return null;
+      if (!matchesInclude(pluginOptions.include, config, id, rootDir)) return null;
       if (!id.endsWith(".ts") && !id.endsWith(".tsx")) return null;
 
       // Use the unified core transformer
@@ -112,17 +191,65 @@ export function i18nextAutoKeyRollupPlugin(options: I18nextAutoKeyRollupPluginOp
         setDefaultValue: pluginOptions.setDefaultValue,
         debug: pluginOptions.debug,
         hashLength: config.hashLength,
+        keyStrategy: config.keyStrategy,
+        hashNormalization: config.hashNormalization,
+        runtimeImport: pluginOptions.runtimeImport,
+        defaultNamespace: config.defaultNamespace,
+        namespaceFromPath: config.namespaceFromPath,
+        autoContext: config.autoContext,
+        rootDir,
+        icuMode: config.icuMode,
+        tsconfig: pluginOptions.tsconfig,
+        hoistTranslator: pluginOptions.hoistTranslator,
+        keyLock,
+        store: storeFor(environmentName(this)),
       });
 
+      // Report messages that don't match their function signature
+      const icuValidation = config.icuValidation ?? "warn";
+      if (icuValidation === "error" && result.diagnostics.length > 0) {
+        this.error(result.diagnostics.map(formatDiagnostic).join("\n"));
+      }
+      if (icuValidation === "warn") {
+        for (const diagnostic of result.diagnostics) {
+          this.warn(formatDiagnostic(diagnostic));
+        }
+      }
+
+      // Report message-like functions that were left untranslated
+      for (const diagnostic of result.skipped) {
+        this.warn(formatDiagnostic(diagnostic));
+      }
+
       if (!result.didTransform) return null;
 
+      // Rebuild when an inlined constant changes
+      for (const dependency of result.dependencies ?? []) {
+        this.addWatchFile(dependency);
+      }
+
       return {
         code: result.code,
         map: result.map,
       };
     },
 
-    generateBundle() {
+    async generateBundle() {
+      const store = storeFor(environmentName(this));
+
+      // Different messages that get the same key; stale ones left wrong keys in the bundle, and
+      // readable keys can't be derived
+      const collisions = store.collisions();
+      const fatal = collisions.filter((collision) => collision.stale || collision.readable);
+      if (fatal.length > 0) {
+        this.error(fatal.map(formatKeyCollision).join("\n"));
+      }
+      for (const collision of collisions) {
+        this.warn(formatKeyCollision(collision));
+      }
+
+      const entries = await runCatalogHooks(Array.from(store.all().values()), options.hooks);
+
       if (!pluginOptions.jsonOutputPath) {
         if (!pluginOptions.setDefaultValue) {
           this.warn(
@@ -134,27 +261,29 @@ export function i18nextAutoKeyRollupPlugin(options: I18nextAutoKeyRollupPluginOp
         return;
       }
 
-      // Build a stable snapshot of entries
-      const entries = Array.from(i18nStore.all().values()).sort((a, b) => a.id.localeCompare(b.id));
-
-      // Build dictionary
-      const dict: Record<string, string> = {};
-      for (const e of entries) {
-        dict[e.id] = e.source;
+      const merged = unsplitNamespaces(entries, pluginOptions.jsonOutputPath);
+      if (merged.length > 0) {
+        this.warn(
+          `Messages use namespaces (${merged.join(", ")}) but jsonOutputPath has no {{ns}} placeholder, so they are emitted into a single file.`
+        );
       }
 
-      // Optionally wrap under topLevelKey
-      const finalOutput = pluginOptions.topLevelKey ? { [pluginOptions.topLevelKey]: dict } : dict;
-
-      // Create JSON content
-      const jsonContent = JSON.stringify(finalOutput, null, config.jsonIndentSpaces);
-
-      // Emit as an asset
-      this.emitFile({
-        type: "asset",
-        fileName: pluginOptions.jsonOutputPath,
-        source: jsonContent,
+      const outputs = buildJsonOutputs(entries, {
+        jsonOutputPath: pluginOptions.jsonOutputPath,
+        topLevelKey: pluginOptions.topLevelKey,
+        indentSpaces: config.jsonIndentSpaces,
+        defaultNamespace: config.defaultNamespace,
+        icuMode: config.icuMode,
       });
+
+      // Emit each file as an asset
+      for (const output of outputs) {
+        this.emitFile({
+          type: "asset",
+          fileName: output.fileName,
+          source: output.content,
+        });
+      }
     },
   };
 }
@@ -1,5 +1,5 @@
+import path from "path";
 import { i18nextAutoKeyRollupPlugin } from "../plugin";
-import { i18nStore } from "../../common/i18nStore";
 import type { PluginContext, TransformPluginContext, RollupError } from "rollup";
 
 // Mock the config loader
@@ -30,7 +30,6 @@ describe("i18nextAutoKeyRollupPlugin", () => {
   beforeEach(() => {
     // Clear all state
     jest.clearAllMocks();
-    i18nStore.clear();
     emittedFiles = [];
 
     // Create mock plugin context
@@ -68,23 +67,23 @@ describe("i18nextAutoKeyRollupPlugin", () => {
   });
 
   describe("buildStart hook", () => {
-    it("should clear i18nStore on build start", () => {
+    it("should clear the store on build start", () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "locales/en.json",
       });
 
       // Add some data to store
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "test",
         source: "Test message",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
-      expect(i18nStore.all().size).toBe(1);
+      expect(plugin.api!.store.all().size).toBe(1);
 
       // Call buildStart
       callHook(plugin.buildStart, mockPluginContext, {} as any);
 
-      expect(i18nStore.all().size).toBe(0);
+      expect(plugin.api!.store.all().size).toBe(0);
     });
 
     it("should add config file to watch files", () => {
@@ -206,27 +205,94 @@ export const Messages = {
       // Debug mode wraps calls in template strings with ~~ markers
       expect(result?.code).toMatch(/~~.*~~|`~~.*~~`/);
     });
+    it("should respect runtimeImport option", () => {
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en.json",
+        runtimeImport: { from: "@/i18n/instance", name: "i18n" },
+      });
+
+      const code = `
+export const Messages = {
+  greeting: (): string => "Hello World",
+};
+`;
+      const result = callHook(plugin.transform, mockTransformContext, code, "src/test.messages.ts");
+
+      expect(result?.code).toContain('import i18n from "@/i18n/instance";');
+      expect(result?.code).toContain("i18n.t(");
+      expect(result?.code).not.toContain("i18next");
+    });
+
+    it("should warn about placeholders that don't match the parameters", () => {
+      const warn = jest.fn();
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en.json",
+      });
+
+      const code = `export const Messages = {
+  greeting: (name: string): string => "Hello {nmae}",
+};`;
+      callHook(plugin.transform, { ...mockTransformContext, warn }, code, "src/test.messages.ts");
+
+      expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^src\/test\.messages\.ts:2:39 - Placeholder \{nmae\}/));
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Parameter "name" is not used'));
+    });
+
+    it("should warn about message-like functions that can't be translated", () => {
+      const warn = jest.fn();
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en.json",
+      });
+
+      const code = `export const Messages = {
+  status: (ok: boolean): string => (ok ? "Online" : "Offline"),
+};`;
+      callHook(plugin.transform, { ...mockTransformContext, warn }, code, "src/test.messages.ts");
+
+      expect(warn).toHaveBeenCalledWith(
+        'src/test.messages.ts:2:11 - Message "status" is not translated: it returns a conditional expression'
+      );
+    });
+
+    it("should fail the build on ICU problems when icuValidation is 'error'", () => {
+      const { loadConfig } = jest.requireMock("../../common/config/loadConfig");
+      loadConfig.mockReturnValueOnce({
+        config: { hashLength: 10, argMode: "named", jsonIndentSpaces: 2, icuValidation: "error" },
+        file: undefined,
+      });
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en.json",
+      });
+
+      const code = `export const Messages = {
+  greeting: (): string => "Hello {",
+};`;
+
+      expect(() => callHook(plugin.transform, mockTransformContext, code, "src/test.messages.ts")).toThrow(
+        "Invalid ICU message"
+      );
+    });
   });
 
   describe("generateBundle hook", () => {
-    it("should emit JSON file with collected translations", () => {
+    it("should emit JSON file with collected translations", async () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "locales/en.json",
       });
 
       // Simulate transformation adding entries to store
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "abc123",
         source: "Hello World",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "def456",
         source: "Goodbye World",
         ref: { file: "test.ts", line: 2, column: 1 },
       });
 
-      callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
 
       expect(emittedFiles).toHaveLength(1);
       expect(emittedFiles[0]).toMatchObject({
@@ -241,29 +307,29 @@ export const Messages = {
       });
     });
 
-    it("should sort entries by id for consistent output", () => {
+    it("should sort entries by id for consistent output", async () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "output.json",
       });
 
       // Add entries in non-alphabetical order
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "zebra",
         source: "Z message",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "alpha",
         source: "A message",
         ref: { file: "test.ts", line: 2, column: 1 },
       });
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "beta",
         source: "B message",
         ref: { file: "test.ts", line: 3, column: 1 },
       });
 
-      callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
 
       const jsonContent = JSON.parse(emittedFiles[0].source);
       const keys = Object.keys(jsonContent);
@@ -271,30 +337,89 @@ export const Messages = {
       expect(keys).toEqual(["alpha", "beta", "zebra"]);
     });
 
-    it("should handle empty store gracefully", () => {
+    it("should handle empty store gracefully", async () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "empty.json",
       });
 
-      callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
 
       const jsonContent = JSON.parse(emittedFiles[0].source);
       expect(jsonContent).toEqual({});
     });
 
-    it("should respect topLevelKey option", () => {
+    it("should emit one JSON file per namespace when jsonOutputPath contains {{ns}}", async () => {
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en/{{ns}}.json",
+      });
+
+      plugin.api!.store.add({
+        id: "msg1",
+        source: "Pay now",
+        namespace: "checkout",
+        ref: { file: "checkout.messages.ts", line: 1, column: 1 },
+      });
+      plugin.api!.store.add({
+        id: "msg2",
+        source: "Hello",
+        ref: { file: "common.messages.ts", line: 1, column: 1 },
+      });
+
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+
+      expect(emittedFiles.map((f) => f.fileName)).toEqual(["locales/en/checkout.json", "locales/en/translation.json"]);
+      expect(JSON.parse(emittedFiles[0].source)).toEqual({ msg1: "Pay now" });
+      expect(JSON.parse(emittedFiles[1].source)).toEqual({ msg2: "Hello" });
+    });
+
+    it("should warn when namespaced messages are emitted into a single file", async () => {
+      const warn = jest.fn();
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en.json",
+      });
+
+      plugin.api!.store.add({
+        id: "msg1",
+        source: "Pay now",
+        namespace: "checkout",
+        ref: { file: "checkout.messages.ts", line: 1, column: 1 },
+      });
+
+      await callHook(plugin.generateBundle, { ...mockPluginContext, warn }, {} as any, {} as any, false);
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("checkout"));
+      expect(emittedFiles.map((f) => f.fileName)).toEqual(["locales/en.json"]);
+    });
+
+    it("should fail when a message was emitted with a key another message took over", async () => {
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en.json",
+      });
+
+      // Both hash to "f54ead0442"; the message that sorts later is transformed first
+      const context = { ...mockTransformContext, warn: jest.fn() };
+      callHook(plugin.transform, context, `export const A = { a: (): string => "Message 1790599" };`, "a.messages.ts");
+      callHook(plugin.transform, context, `export const B = { b: (): string => "Message 1080860" };`, "b.messages.ts");
+
+      await expect(callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false)).rejects.toThrow(
+        /Key "f54ead0442" is generated by different messages: "Message 1080860" \(b\.messages\.ts:1:\d+\), "Message 1790599" \(a\.messages\.ts:1:\d+\)/
+      );
+      expect(emittedFiles).toEqual([]);
+    });
+
+    it("should respect topLevelKey option", async () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "locales/en.json",
         topLevelKey: "common",
       });
 
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "msg1",
         source: "Hello",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
 
-      callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
 
       const jsonContent = JSON.parse(emittedFiles[0].source);
       expect(jsonContent).toEqual({
@@ -304,44 +429,87 @@ export const Messages = {
       });
     });
 
-    it("should handle special characters in strings", () => {
+    it("should handle special characters in strings", async () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "special.json",
       });
 
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "special",
         source: "Hello \"World\" with 'quotes' and \n newlines \t tabs",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
 
-      callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
 
       const jsonContent = JSON.parse(emittedFiles[0].source);
       expect(jsonContent.special).toBe("Hello \"World\" with 'quotes' and \n newlines \t tabs");
     });
 
-    it("should handle unicode characters", () => {
+    it("should handle unicode characters", async () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "test.json",
       });
 
       const unicodeMessage = "Hello 世界 🌍 Café naïve résumé";
-      i18nStore.add({
+      plugin.api!.store.add({
         id: "unicode",
         source: unicodeMessage,
         ref: { file: "test.ts", line: 1, column: 1 },
       });
 
-      callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
 
       const jsonContent = JSON.parse(emittedFiles[0].source);
       expect(jsonContent.unicode).toBe(unicodeMessage);
     });
   });
 
+  describe("hooks", () => {
+    it("reports recorded messages and emits the transformed catalog", async () => {
+      const recorded: string[] = [];
+      const onCatalogReady = jest.fn();
+      const plugin = i18nextAutoKeyRollupPlugin({
+        jsonOutputPath: "locales/en.json",
+        hooks: {
+          onMessageRecorded: (message) => recorded.push(message.source),
+          transformCatalog: async (entries) =>
+            entries.map((entry) => ({ ...entry, source: entry.source.toUpperCase() })),
+          onCatalogReady,
+        },
+      });
+
+      callHook(plugin.buildStart, mockPluginContext, {} as any);
+      callHook(
+        plugin.transform,
+        mockTransformContext,
+        `export const Messages = { save: (): string => "Save", cancel: (): string => "Cancel" };`,
+        "src/app.messages.ts"
+      );
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+
+      expect(recorded).toEqual(["Save", "Cancel"]);
+      expect(Object.values(JSON.parse(emittedFiles[0].source)).sort()).toEqual(["CANCEL", "SAVE"]);
+      expect(onCatalogReady).toHaveBeenCalledWith([
+        expect.objectContaining({ source: "SAVE" }),
+        expect.objectContaining({ source: "CANCEL" }),
+      ]);
+    });
+
+    it("calls onCatalogReady without a JSON output path", async () => {
+      const onCatalogReady = jest.fn();
+      const plugin = i18nextAutoKeyRollupPlugin({ setDefaultValue: true, hooks: { onCatalogReady } });
+
+      plugin.api!.store.add({ id: "abc123", source: "Hello", ref: { file: "test.ts", line: 1, column: 1 } });
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+
+      expect(emittedFiles).toHaveLength(0);
+      expect(onCatalogReady).toHaveBeenCalledWith([expect.objectContaining({ id: "abc123" })]);
+    });
+  });
+
   describe("Full workflow integration", () => {
-    it("should handle complete build lifecycle", () => {
+    it("should handle complete build lifecycle", async () => {
       const plugin = i18nextAutoKeyRollupPlugin({
         jsonOutputPath: "dist/locales/en.json",
         include: [/\.messages\.ts$/],
@@ -349,7 +517,7 @@ export const Messages = {
 
       // 1. buildStart: clear store
       callHook(plugin.buildStart, mockPluginContext, {} as any);
-      expect(i18nStore.all().size).toBe(0);
+      expect(plugin.api!.store.all().size).toBe(0);
 
       // 2. transform: process files
       const code1 = `
@@ -369,10 +537,10 @@ export const OtherMessages = {
       expect(result2?.code).toContain("i18next.t(");
 
       // Store should have entries from transformation
-      expect(i18nStore.all().size).toBeGreaterThan(0);
+      expect(plugin.api!.store.all().size).toBeGreaterThan(0);
 
       // 3. generateBundle: emit JSON
-      callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, mockPluginContext, {} as any, {} as any, false);
 
       expect(emittedFiles).toHaveLength(1);
       expect(emittedFiles[0].fileName).toBe("dist/locales/en.json");
@@ -380,6 +548,64 @@ export const OtherMessages = {
       const jsonContent = JSON.parse(emittedFiles[0].source);
       expect(Object.keys(jsonContent).length).toBeGreaterThan(0);
     });
+
+    it("keeps the messages of builds running side by side apart", async () => {
+      const client = i18nextAutoKeyRollupPlugin({ jsonOutputPath: "client/en.json" });
+      const server = i18nextAutoKeyRollupPlugin({ jsonOutputPath: "server/en.json" });
+
+      callHook(client.buildStart, mockPluginContext, {} as any);
+      callHook(server.buildStart, mockPluginContext, {} as any);
+      callHook(
+        client.transform,
+        mockTransformContext,
+        `export const ClientMessages = { open: (): string => "Open" };`,
+        "src/client.messages.ts"
+      );
+      // A build starting after the other one transformed its files doesn't clear them
+      callHook(server.buildStart, mockPluginContext, {} as any);
+      callHook(
+        server.transform,
+        mockTransformContext,
+        `export const ServerMessages = { render: (): string => "Render" };`,
+        "src/server.messages.ts"
+      );
+      await callHook(client.generateBundle, mockPluginContext, {} as any, {} as any, false);
+      await callHook(server.generateBundle, mockPluginContext, {} as any, {} as any, false);
+
+      expect(emittedFiles.map((file) => [file.fileName, Object.values(JSON.parse(file.source))])).toEqual([
+        ["client/en.json", ["Open"]],
+        ["server/en.json", ["Render"]],
+      ]);
+    });
+
+    it("keeps the messages of Vite environments sharing the plugin apart", async () => {
+      const plugin = i18nextAutoKeyRollupPlugin({ jsonOutputPath: "en.json" });
+      const inEnvironment = (context: object, name: string) => ({ ...context, environment: { name } });
+      const client = inEnvironment(mockPluginContext, "client");
+      const ssr = inEnvironment(mockPluginContext, "ssr");
+
+      callHook(plugin.buildStart, client, {} as any);
+      callHook(
+        plugin.transform,
+        inEnvironment(mockTransformContext, "client"),
+        `export const ClientMessages = { open: (): string => "Open" };`,
+        "src/client.messages.ts"
+      );
+      // The SSR build starting doesn't clear the client's messages
+      callHook(plugin.buildStart, ssr, {} as any);
+      callHook(
+        plugin.transform,
+        inEnvironment(mockTransformContext, "ssr"),
+        `export const ServerMessages = { render: (): string => "Render" };`,
+        "src/server.messages.ts"
+      );
+      await callHook(plugin.generateBundle, client, {} as any, {} as any, false);
+      await callHook(plugin.generateBundle, ssr, {} as any, {} as any, false);
+
+      expect(emittedFiles.map((file) => Object.values(JSON.parse(file.source)))).toEqual([["Open"], ["Render"]]);
+      expect(Array.from(plugin.api!.stores.keys())).toEqual(["client", "ssr"]);
+      expect(plugin.api!.store).toBe(plugin.api!.stores.get("ssr"));
+    });
   });
 
   describe("Configuration merging", () => {
@@ -400,6 +626,49 @@ export const OtherMessages = {
       expect(nonMatchingResult).toBeNull();
     });
 
+    it("should default include and jsonOutputPath to the config", async () => {
+      const { loadConfig } = jest.requireMock("../../common/config/loadConfig");
+      loadConfig.mockReturnValueOnce({
+        config: {
+          hashLength: 10,
+          argMode: "named",
+          jsonIndentSpaces: 2,
+          include: ["src/**/*.ts"],
+          exclude: ["src/legacy/**"],
+          jsonOutputPath: "locales/{{lng}}.json",
+          sourceLocale: "de",
+        },
+        file: undefined,
+      });
+      const plugin = i18nextAutoKeyRollupPlugin();
+      const code = 'export const messages = { greeting: () => "Hello" };';
+
+      const matchingResult = callHook(plugin.transform, mockTransformContext, code, path.resolve("src/app.ts"));
+      expect(matchingResult.code).toContain("i18next.t(");
+      expect(callHook(plugin.transform, mockTransformContext, code, path.resolve("src/legacy/app.ts"))).toBeNull();
+      expect(callHook(plugin.transform, mockTransformContext, code, path.resolve("lib/a.messages.ts"))).toBeNull();
+
+      await callHook(plugin.generateBundle, mockPluginContext);
+      expect(emittedFiles.map((file) => file.fileName)).toEqual(["locales/de.json"]);
+    });
+
+    it("should match the config's globs relative to the config file's directory", () => {
+      const { loadConfig } = jest.requireMock("../../common/config/loadConfig");
+      loadConfig.mockReturnValueOnce({
+        config: { hashLength: 10, argMode: "named", jsonIndentSpaces: 2, include: ["src/**/*.ts"] },
+        file: "/project/i18next-auto-keys.config.js",
+        rootDir: "/project",
+      });
+      const plugin = i18nextAutoKeyRollupPlugin();
+      const code = 'export const messages = { greeting: () => "Hello" };';
+
+      expect(callHook(plugin.transform, mockTransformContext, code, "/project/src/app.ts").code).toContain(
+        "i18next.t("
+      );
+      // Not relative to the working directory
+      expect(callHook(plugin.transform, mockTransformContext, code, path.resolve("src/app.ts"))).toBeNull();
+    });
+
     it("should merge plugin options with config defaults", () => {
       // The plugin should use config defaults when options are not provided
       const plugin = i18nextAutoKeyRollupPlugin({
@@ -0,0 +1,62 @@
+import type { LoaderContext, Module } from "webpack";
+import { i18nStore } from "../common/i18nStore";
+import type { I18nStore } from "../common/i18nStore";
+import type { I18nStoreSnapshot } from "../common/i18nStore";
+
+// Registered symbol, so the plugin and loader agree even when loaded as separate module copies
+const STORE_KEY: unique symbol = Symbol.for("i18next-auto-keys.store");
+
+/** A loader context given the store of its compilation by the emit plugin. */
+type StoreCarrier = { [STORE_KEY]?: I18nStore };
+
+// Build info is cached with the module, and loader metadata crosses from workers to the main
+// process, so both hold plain data under a string key
+const SNAPSHOT_KEY = "i18nextAutoKeysSnapshot";
+
+/** Give the loaders of a compilation the store of the emit plugin that runs it. */
+export function attachStore(loaderContext: object, store: I18nStore): void {
+  Object.assign<object, StoreCarrier>(loaderContext, { [STORE_KEY]: store });
+}
+
+function hasStore(loaderContext: object): loaderContext is Required<StoreCarrier> {
+  return STORE_KEY in loaderContext;
+}
+
+/** The store of the loader's compilation, or the global store when the emit plugin isn't used. */
+export function getLoaderStore(loaderContext: object): I18nStore {
+  return hasStore(loaderContext) ? loaderContext[STORE_KEY] : i18nStore;
+}
+
+/**
+ * Whether the loader runs in a `thread-loader` worker, away from the compilation and its store.
+ * Its messages then travel back to the main process in the loader result. Workers are given a
+ * stub compilation, but no module.
+ */
+export function runsInWorker(loaderContext: LoaderContext<unknown>): boolean {
+  if (hasStore(loaderContext)) return false;
+  return "thread-loader" in loaderContext || !loaderContext._module;
+}
+
+/** Keep the messages of the loader's module in its build info, which webpack caches with the module. */
+export function setModuleSnapshot(loaderContext: LoaderContext<unknown>, snapshot: I18nStoreSnapshot): void {
+  const buildInfo = loaderContext._module?.buildInfo;
+  if (buildInfo) buildInfo[SNAPSHOT_KEY] = snapshot;
+}
+
+/** The messages the loader found in a module, including modules restored from the cache. */
+export function getModuleSnapshot(module: Module): I18nStoreSnapshot | undefined {
+  return module.buildInfo?.[SNAPSHOT_KEY];
+}
+
+/** Loader metadata that carries a worker's snapshot back to the main process. */
+export function withSnapshot(meta: unknown, snapshot: I18nStoreSnapshot): Record<string, unknown> {
+  const rest = typeof meta === "object" && meta !== null ? meta : {};
+  return { ...rest, [SNAPSHOT_KEY]: snapshot };
+}
+
+/** Take the snapshot a worker put in the loader metadata, and the metadata without it. */
+export function takeSnapshot(meta: unknown): { snapshot?: I18nStoreSnapshot; meta: unknown } {
+  if (typeof meta !== "object" || meta === null || !(SNAPSHOT_KEY in meta)) return { meta };
+  const { [SNAPSHOT_KEY]: snapshot, ...rest } = meta;
+  return { snapshot: snapshot as I18nStoreSnapshot, meta: rest };
+}
@@ -1,17 +1,39 @@
 import { validate } from "schema-utils";
-import type { LoaderContext } from "webpack";
+import type { LoaderContext, Compilation } from "webpack";
 import type { RawSourceMap } from "source-map";
-import { transformMessages } from "../common/transformer/transformer";
+import { transformMessages, formatDiagnostic } from "../common/transformer/transformer";
+import type { RuntimeImport } from "../common/transformer/transformer";
+import { invalidatePrograms } from "../common/transformer/program";
 import { loadConfig } from "../common/config/loadConfig";
+import { keyLockPath, readKeyLock } from "../common/keyLock";
+import type { KeyLock } from "../common/keyLock";
+import { matchesFilePatterns } from "../common/filePatterns";
+import type { I18nConfig } from "../common/config/loadConfig";
+import { I18nStore } from "../common/i18nStore";
+import { getLoaderStore, runsInWorker, setModuleSnapshot, withSnapshot, takeSnapshot } from "./compilationStore";
 
 export type I18nextAutoKeyLoaderOptions = {
   sourcemap?: boolean;
-  include: RegExp | RegExp[];
+  /** Files to transform. Defaults to the config file's `include`/`exclude` globs, or every file the rule matches. */
+  include?: RegExp | RegExp[];
   argMode?: "indexed" | "named";
   setDefaultValue?: boolean;
   debug?: boolean;
+  runtimeImport?: RuntimeImport;
+  /** tsconfig.json whose program is used to resolve constants and enum members in messages */
+  tsconfig?: string;
+  /** Call a single per-file `__t` helper instead of repeating `i18next.t` in every message */
+  hoistTranslator?: boolean;
+  /**
+   * Set by the emit plugin on the copy of this loader it puts in front of `thread-loader`, which
+   * collects the messages sent back by the worker. Not meant to be set by hand.
+   */
+  collect?: boolean;
 };
 
+/** Path of this loader, so the emit plugin can find it in a module's loaders. */
+export const loaderPath = __filename;
+
 const schema = {
   type: "object",
   properties: {
@@ -22,12 +44,38 @@ const schema = {
     argMode: { type: "string", enum: ["indexed", "named"] },
     setDefaultValue: { type: "boolean" },
     debug: { type: "boolean" },
+    runtimeImport: {
+      type: "object",
+      properties: {
+        from: { type: "string" },
+        name: { type: "string" },
+        kind: { type: "string", enum: ["default", "named"] },
+      },
+      required: ["from", "name"],
+      additionalProperties: false,
+    },
+    tsconfig: { type: "string" },
+    hoistTranslator: { type: "boolean" },
+    collect: { type: "boolean" },
   },
   additionalProperties: false,
 };
 
-function matchesInclude(include: RegExp | RegExp[], resourcePath: string) {
-  if (!include) return true; // no include => process everything
+// Type-aware programs are rebuilt and the key lock re-read once per compilation, so edits to
+// imported constants and lock updates are picked up
+let lastCompilation: Compilation | undefined;
+const keyLocks = new Map<string, KeyLock>();
+
+function matchesInclude(
+  include: RegExp | RegExp[] | undefined,
+  config: I18nConfig,
+  resourcePath: string,
+  rootDir: string
+) {
+  if (!include) {
+    // no include => the config file's globs (relative to its directory), or everything the webpack rule matched
+    return config.include ? matchesFilePatterns(resourcePath, config, rootDir) : true;
+  }
   const arr = Array.isArray(include) ? include : [include];
   return arr.some((re) => re.test(resourcePath));
 }
@@ -43,37 +91,115 @@ export function i18nextAutoKeyLoader(
   // validate in a version-agnostic way
   validate(schema as any, loaderOptions, { name: "i18next-auto-keys" });
 
-  const { config } = loadConfig();
+  // In the main process, after a worker ran the loader: keep the messages it sent back
+  if (loaderOptions.collect) {
+    const collected = takeSnapshot(meta);
+    if (collected.snapshot) setModuleSnapshot(this, collected.snapshot);
+    this.callback(null, source, inputMap, collected.meta as typeof meta);
+    return;
+  }
+
+  const { config, rootDir } = loadConfig();
 
   const options: I18nextAutoKeyLoaderOptions = {
     ...loaderOptions,
     // Prioritize loader options over config defaults, but use config if no loader option is provided
     argMode: loaderOptions.argMode ?? config.argMode,
+    runtimeImport: loaderOptions.runtimeImport ?? config.runtimeImport,
   };
 
   this.cacheable && this.cacheable(true);
 
   // Skip if not included
-  if (!matchesInclude(options.include, this.resourcePath)) {
+  if (!matchesInclude(options.include, config, this.resourcePath, rootDir)) {
     // pass through unchanged (preserve prior sourcemap if present)
     this.callback(null, source, inputMap, meta);
     return;
   }
 
+  if (this._compilation !== lastCompilation) {
+    lastCompilation = this._compilation;
+    invalidatePrograms();
+    keyLocks.clear();
+  }
+
+  // Rebuild when extract updates the key lock
+  const lockFile = config.keyLock ? keyLockPath(config.poOutputDirectory) : undefined;
+  let keyLock: KeyLock | undefined;
+  if (lockFile) {
+    this.addDependency(lockFile);
+    keyLock = keyLocks.get(lockFile);
+    if (!keyLock) {
+      keyLock = readKeyLock(lockFile);
+      keyLocks.set(lockFile, keyLock);
+    }
+  }
+
+  // A worker has no access to the compilation's store; it records into its own and sends it back.
+  // In the main process, the module's own store resolves keys against the compilation's claims.
+  const worker = runsInWorker(this);
+  const compilationStore = worker ? undefined : getLoaderStore(this);
+  const store = compilationStore ? compilationStore.forModule() : new I18nStore();
+
   // Use the unified core transformer (same as Rollup)
   const result = transformMessages(source, this.resourcePath, {
     argMode: options.argMode ?? "named",
     setDefaultValue: options.setDefaultValue ?? false,
     debug: options.debug ?? false,
     hashLength: config.hashLength,
+    keyStrategy: config.keyStrategy,
+    hashNormalization: config.hashNormalization,
+    runtimeImport: options.runtimeImport,
+    defaultNamespace: config.defaultNamespace,
+    namespaceFromPath: config.namespaceFromPath,
+    autoContext: config.autoContext,
+    rootDir,
+    icuMode: config.icuMode,
+    tsconfig: options.tsconfig,
+    hoistTranslator: options.hoistTranslator,
+    keyLock,
+    store,
   });
 
+  // Modules restored from webpack's cache skip the loader; the emit plugin reads their messages and
+  // key claims from here
+  const snapshot = store.toJSON();
+  if (compilationStore) {
+    compilationStore.merge(snapshot);
+    setModuleSnapshot(this, snapshot);
+  } else {
+    meta = withSnapshot(meta, snapshot);
+  }
+
+  // Report messages that don't match their function signature
+  const icuValidation = config.icuValidation ?? "warn";
+  if (icuValidation !== "off") {
+    for (const diagnostic of result.diagnostics) {
+      const error = new Error(formatDiagnostic(diagnostic));
+      if (icuValidation === "error") {
+        this.emitError(error);
+      } else {
+        this.emitWarning(error);
+      }
+    }
+  }
+
+  // Report message-like functions that were left untranslated
+  for (const diagnostic of result.skipped) {
+    this.emitWarning(new Error(formatDiagnostic(diagnostic)));
+  }
+
   // Pass through if no transformation occurred
   if (!result.didTransform) {
     this.callback(null, source, inputMap, meta);
     return;
   }
 
+  // Rebuild this module when an inlined constant changes
+  for (const dependency of result.dependencies ?? []) {
+    this.addDependency(dependency);
+  }
+
   // Return transformed code with source map
   // Note: We're returning result.map directly without composing with inputMap.
   // This is sufficient because:
@@ -1,35 +1,76 @@
 // plugins/I18nextAutoKeyEmitPlugin.ts
-import type { Compiler } from "webpack";
-import { i18nStore } from "../common/i18nStore";
+import type { Compilation, Compiler, Module } from "webpack";
+import { I18nStore, formatKeyCollision } from "../common/i18nStore";
 import { emitIfChanged } from "./emitIfChanged";
+import { buildJsonOutputs, unsplitNamespaces, localizeOutputPath } from "../common/jsonOutput";
 import type { Configuration } from "../common/config/loadConfig";
 import { loadConfig } from "../common/config/loadConfig";
+import { attachStore, getModuleSnapshot } from "./compilationStore";
+import { runCatalogHooks } from "../common/hooks";
+import type { I18nextAutoKeyHooks } from "../common/hooks";
+import { loaderPath } from "./loader";
 
 export type I18nextAutoKeyEmitPluginOptions = {
-  /** Path inside Webpack output where the runtime JSON should be emitted (e.g. "i18n/en.json"). */
-  jsonOutputPath: string;
+  /**
+   * Path inside Webpack output where the runtime JSON should be emitted (e.g. "i18n/en.json").
+   * Include "{{ns}}" (e.g. "locales/en/{{ns}}.json") to emit one file per namespace, and "{{lng}}"
+   * for the config's `sourceLocale`. Defaults to the config's `jsonOutputPath`.
+   */
+  jsonOutputPath?: string;
   /** Optional top level key to wrap translations under. If undefined, translations are placed at root level. */
   topLevelKey?: string;
+  /** Hooks for observing and post-processing the collected messages */
+  hooks?: I18nextAutoKeyHooks;
 };
 
+/** Path without its extension: the bundled loader may be loaded as .cjs or .mjs. */
+function withoutExtension(file: string): string {
+  return file.replace(/\.[cm]?[jt]s$/, "");
+}
+
+function isThreadLoader(loader: string): boolean {
+  return /[\\/]thread-loader[\\/]/.test(loader);
+}
+
+function rebuildModule(compilation: Compilation, module: Module): Promise<void> {
+  return new Promise((resolve, reject) => compilation.rebuildModule(module, (err) => (err ? reject(err) : resolve())));
+}
+
 /**
- * Emits i18n JSON assets once per compilation using entries collected in i18nStore.
+ * Emits i18n JSON assets once per compilation using the entries its loaders collected. Each
+ * compiler gets its own store, so multi-compiler builds (e.g. client and server) don't share messages.
  */
 export class I18nextAutoKeyEmitPlugin {
   private readonly jsonOutputPath: string;
   private readonly topLevelKey?: string;
   private readonly configuration: Configuration;
+  private readonly hooks?: I18nextAutoKeyHooks;
+  private readonly stores = new WeakMap<Compiler, I18nStore>();
 
-  constructor(opts: I18nextAutoKeyEmitPluginOptions) {
-    this.jsonOutputPath = opts.jsonOutputPath;
+  constructor(opts: I18nextAutoKeyEmitPluginOptions = {}) {
     this.configuration = loadConfig();
+    const { config } = this.configuration;
+    const jsonOutputPath = opts.jsonOutputPath ?? config.jsonOutputPath;
+    if (!jsonOutputPath) {
+      throw new Error(
+        "I18nextAutoKeyEmitPlugin needs a jsonOutputPath: pass it to the plugin or set it in the i18next-auto-keys config."
+      );
+    }
+    this.jsonOutputPath = localizeOutputPath(jsonOutputPath, config.sourceLocale);
     this.topLevelKey = this.configuration.config.topLevelKey ?? opts.topLevelKey;
+    this.hooks = opts.hooks;
   }
 
   apply(compiler: Compiler): void {
-    const { Compilation, sources } = compiler.webpack;
+    const { Compilation, NormalModule, sources } = compiler.webpack;
     const pluginName = "I18nextAutoKeyEmitPlugin";
 
+    let store = this.stores.get(compiler);
+    if (!store) {
+      store = new I18nStore(this.hooks?.onMessageRecorded);
+      this.stores.set(compiler, store);
+    }
+
     // add the config file as a build dependency so changes trigger rebuilds:
     const cfgFile = this.configuration.file;
     if (cfgFile) {
@@ -39,8 +80,56 @@ export class I18nextAutoKeyEmitPlugin {
     }
 
     compiler.hooks.thisCompilation.tap(pluginName, (compilation) => {
-      // Start each compilation fresh; transformer will repopulate the store.
-      i18nStore.clear();
+      // Start each compilation fresh; the loaders will repopulate the store.
+      store.clear();
+      const moduleHooks = NormalModule.getCompilationHooks(compilation);
+      moduleHooks.loader.tap(pluginName, (loaderContext) => attachStore(loaderContext, store));
+
+      // Under thread-loader, the loader runs in a worker without the store and sends its messages back
+      // with its result; a copy of the loader in front of thread-loader collects them
+      let warnedAboutWorkerLoaders = false;
+      moduleHooks.beforeLoaders.tap(pluginName, (loaders) => {
+        const own = loaders.findIndex((entry) => withoutExtension(entry.loader) === withoutExtension(loaderPath));
+        let thread = own - 1;
+        while (thread >= 0 && !isThreadLoader(loaders[thread].loader)) thread--;
+        if (own === -1 || thread === -1) return;
+
+        // Loaders that run after it in the worker may drop the messages it sends back
+        if (own - thread > 1 && !warnedAboutWorkerLoaders) {
+          warnedAboutWorkerLoaders = true;
+          compilation.warnings.push(
+            new compiler.webpack.WebpackError(
+              `[${pluginName}] Other loaders run after i18next-auto-keys in the same thread-loader worker, so translations may be missing from the emitted JSON. Give i18next-auto-keys a rule of its own: use: ["thread-loader", "i18next-auto-keys"].`
+            )
+          );
+        }
+        loaders.splice(thread, 0, { loader: loaderPath, options: { collect: true } });
+      });
+
+      // Modules from the persistent cache, or unchanged in watch mode, didn't run the loader in this
+      // compilation; add the messages it kept in their build info
+      const mergeSnapshots = (modules: Iterable<Module>) => {
+        for (const module of modules) {
+          const snapshot = getModuleSnapshot(module);
+          if (snapshot) store.merge(snapshot);
+        }
+      };
+
+      // Settle key collisions before code is generated: a module given a key that a message sorting
+      // first claimed afterwards (possibly in an earlier build) runs the loader again for a derived key
+      compilation.hooks.finishModules.tapPromise(pluginName, async (modules) => {
+        mergeSnapshots(modules);
+        const stale = Array.from(modules).filter((module) => {
+          const snapshot = getModuleSnapshot(module);
+          return snapshot !== undefined && store.hasStaleKeys(snapshot);
+        });
+        if (stale.length === 0) return;
+
+        await Promise.all(stale.map((module) => rebuildModule(compilation, module)));
+        // Collect the messages again, with the keys the rebuilt modules use now
+        store.clear();
+        mergeSnapshots(modules);
+      });
 
       compilation.hooks.processAssets.tapPromise(
         {
@@ -48,25 +137,38 @@ export class I18nextAutoKeyEmitPlugin {
           stage: Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL,
         },
         async (assets) => {
-          // Build a stable snapshot of entries
-          const entries = Array.from(i18nStore.all().values()).sort((a, b) => a.id.localeCompare(b.id));
+          const { config } = this.configuration;
+
+          // Different messages that get the same key; stale ones left wrong keys in the bundle (e.g. when
+          // thread-loader workers couldn't see each other's claims), and readable keys can't be derived
+          for (const collision of store.collisions()) {
+            const error = new compiler.webpack.WebpackError(`[${pluginName}] ${formatKeyCollision(collision)}`);
+            (collision.stale || collision.readable ? compilation.errors : compilation.warnings).push(error);
+          }
 
-          // --- JSON (id -> source) ---
-          const dict: Record<string, string> = {};
-          for (const e of entries) dict[e.id] = e.source;
+          const entries = await runCatalogHooks(Array.from(store.all().values()), this.hooks);
 
-          // Optionally wrap under topLevelKey
-          const finalOutput = this.topLevelKey ? { [this.topLevelKey]: dict } : dict;
+          const merged = unsplitNamespaces(entries, this.jsonOutputPath);
+          if (merged.length > 0) {
+            compilation.warnings.push(
+              new compiler.webpack.WebpackError(
+                `[${pluginName}] Messages use namespaces (${merged.join(", ")}) but jsonOutputPath has no {{ns}} placeholder, so they are emitted into a single file.`
+              )
+            );
+          }
 
-          const indentSpaces = this.configuration.config.jsonIndentSpaces;
-          const jsonBuf = Buffer.from(JSON.stringify(finalOutput, null, indentSpaces), "utf8");
-          emitIfChanged(compilation, sources, this.normalize(this.jsonOutputPath), jsonBuf);
+          const outputs = buildJsonOutputs(entries, {
+            jsonOutputPath: this.jsonOutputPath,
+            topLevelKey: this.topLevelKey,
+            indentSpaces: config.jsonIndentSpaces,
+            defaultNamespace: config.defaultNamespace,
+            icuMode: config.icuMode,
+          });
+          for (const output of outputs) {
+            emitIfChanged(compilation, sources, output.fileName, Buffer.from(output.content, "utf8"));
+          }
         }
       );
     });
   }
-
-  private normalize(p: string | undefined): string {
-    return (p ?? "").replace(/\\/g, "/");
-  }
 }
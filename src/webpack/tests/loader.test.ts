@@ -0,0 +1,158 @@
+import { i18nextAutoKeyLoader } from "../loader";
+import { I18nStore, i18nStore } from "../../common/i18nStore";
+import { attachStore, getModuleSnapshot, withSnapshot } from "../compilationStore";
+import { loadConfig } from "../../common/config/loadConfig";
+import * as keyLock from "../../common/keyLock";
+import type { LoaderContext, Module } from "webpack";
+import type { I18nextAutoKeyLoaderOptions } from "../loader";
+
+const source = `export const Messages = {
+  greeting: (): string => "Hello",
+};`;
+
+/** A loader context as webpack (or a thread-loader worker) passes it to the loader. */
+function loaderContext(
+  options: I18nextAutoKeyLoaderOptions,
+  overrides: Record<string, unknown> = {},
+  resourcePath = "/project/src/app.messages.ts"
+) {
+  const module = { buildInfo: {} } as unknown as Module;
+  const context = {
+    getOptions: () => options,
+    resourcePath,
+    rootContext: "/project",
+    cacheable: jest.fn(),
+    addDependency: jest.fn(),
+    emitWarning: jest.fn(),
+    emitError: jest.fn(),
+    callback: jest.fn(),
+    _compilation: {},
+    _module: module,
+    ...overrides,
+  };
+  return { context: context as unknown as LoaderContext<I18nextAutoKeyLoaderOptions>, module };
+}
+
+function run(context: LoaderContext<I18nextAutoKeyLoaderOptions>, input: string, meta?: unknown) {
+  i18nextAutoKeyLoader.call(context, input, undefined, meta);
+  const [error, code, , resultMeta] = (context.callback as jest.Mock).mock.calls[0];
+  return { error, code, meta: resultMeta };
+}
+
+describe("i18nextAutoKeyLoader", () => {
+  beforeEach(() => {
+    i18nStore.clear();
+  });
+
+  it("records messages in the compilation store and the module's build info", () => {
+    const store = new I18nStore();
+    const { context, module } = loaderContext({});
+    attachStore(context, store);
+
+    const { code } = run(context, source);
+
+    expect(code).toContain("i18next.t(");
+    const [entry] = Array.from(store.all().values());
+    expect(entry.source).toBe("Hello");
+    expect(getModuleSnapshot(module)?.entries.map((e) => e.source)).toEqual(["Hello"]);
+  });
+
+  it("sends a thread-loader worker's messages back in the loader metadata", () => {
+    // Workers get a stub compilation, but no module and no store
+    const { context } = loaderContext({}, { "thread-loader": true, _module: undefined });
+
+    const { code, meta } = run(context, source, { other: true });
+
+    expect(code).toContain("i18next.t(");
+    expect(meta.other).toBe(true);
+    expect(meta.i18nextAutoKeysSnapshot.entries.map((e: { source: string }) => e.source)).toEqual(["Hello"]);
+    expect(i18nStore.all().size).toBe(0);
+  });
+
+  it("collects the worker's messages into the module's build info in collect mode", () => {
+    const { context: worker } = loaderContext({}, { "thread-loader": true, _module: undefined });
+    const transformed = run(worker, source);
+
+    const { context: collector, module } = loaderContext({ collect: true });
+    const collected = run(collector, transformed.code, transformed.meta);
+
+    // The collector passes the result through without the snapshot
+    expect(collected.code).toBe(transformed.code);
+    expect(collected.meta).toEqual({});
+
+    const store = new I18nStore();
+    store.merge(getModuleSnapshot(module)!);
+    expect(Array.from(store.all().values()).map((e) => e.source)).toEqual(["Hello"]);
+  });
+
+  it("passes metadata without a snapshot through in collect mode", () => {
+    const { context, module } = loaderContext({ collect: true });
+    const snapshot = new I18nStore().toJSON();
+
+    expect(run(context, source, { other: true }).meta).toEqual({ other: true });
+    expect(getModuleSnapshot(module)).toBeUndefined();
+
+    const { context: next, module: nextModule } = loaderContext({ collect: true });
+    expect(run(next, source, withSnapshot(undefined, snapshot)).meta).toEqual({});
+    expect(getModuleSnapshot(nextModule)).toEqual(snapshot);
+  });
+
+  it("reports collisions between cached modules and modules transformed in a later build", () => {
+    // Every message gets the same key
+    const { config } = loadConfig();
+    const sharedKeys = { config: { ...config, keyStrategy: () => "shared" } };
+    (loadConfig as jest.Mock).mockReturnValueOnce(sharedKeys).mockReturnValueOnce(sharedKeys);
+    const other = `export const Other = {
+  farewell: (): string => "Goodbye",
+};`;
+
+    // First build: the module is transformed and its snapshot cached with it
+    const firstBuild = new I18nStore();
+    const { context: first, module: cached } = loaderContext({});
+    attachStore(first, firstBuild);
+    run(first, source);
+
+    // Warm build in a new process: another module is edited to a message with the same key
+    const secondBuild = new I18nStore();
+    const { context: second } = loaderContext({}, {}, "/project/src/other.messages.ts");
+    attachStore(second, secondBuild);
+    run(second, other);
+    secondBuild.merge(getModuleSnapshot(cached)!);
+
+    const [collision] = secondBuild.collisions();
+    expect(collision.messages.map((m) => m.source)).toEqual(["Goodbye", "Hello"]);
+    // "Goodbye" keeps the key, but the cached module's code already uses it for "Hello"
+    expect(collision.stale).toBe(true);
+  });
+
+  it("matches the config's globs relative to the config file's directory", () => {
+    const { config } = loadConfig();
+    const included = { config: { ...config, include: ["src/**/*.messages.ts"] }, rootDir: "/project" };
+    (loadConfig as jest.Mock).mockReturnValueOnce(included).mockReturnValueOnce(included);
+
+    // webpack's context doesn't matter, e.g. a config in a monorepo's root used by a package's build
+    const inPackage = loaderContext({}, { rootContext: "/project/packages/web" }).context;
+    expect(run(inPackage, source).code).toContain("i18next.t(");
+    const outside = loaderContext({}, {}, "/elsewhere/src/app.messages.ts").context;
+    expect(run(outside, source).code).toBe(source);
+  });
+
+  it("reads the key lock once per compilation", () => {
+    const { config } = loadConfig();
+    const locked = { config: { ...config, keyLock: true, poOutputDirectory: "/project/i18n" } };
+    for (let i = 0; i < 3; i++) (loadConfig as jest.Mock).mockReturnValueOnce(locked);
+    const readKeyLock = jest.spyOn(keyLock, "readKeyLock").mockReturnValue({ version: 1, messages: {} });
+
+    try {
+      const compilation = {};
+      run(loaderContext({}, { _compilation: compilation }).context, source);
+      run(loaderContext({}, { _compilation: compilation }, "/project/src/other.messages.ts").context, source);
+      expect(readKeyLock).toHaveBeenCalledTimes(1);
+
+      run(loaderContext({}, { _compilation: {} }).context, source);
+      expect(readKeyLock).toHaveBeenCalledTimes(2);
+    } finally {
+      readKeyLock.mockRestore();
+    }
+  });
+});
@@ -1,5 +1,8 @@
 import { I18nextAutoKeyEmitPlugin } from "../plugin";
-import { i18nStore } from "../../common/i18nStore";
+import { i18nStore, I18nStore } from "../../common/i18nStore";
+import type { I18nStoreSnapshot, MessageRecord } from "../../common/i18nStore";
+import { getLoaderStore } from "../compilationStore";
+import { loaderPath } from "../loader";
 import type { Compiler, Compilation } from "webpack";
 
 // Mock webpack structures
@@ -13,16 +16,30 @@ const mockCompilation = {
       tap: jest.fn(),
       tapPromise: jest.fn(),
     },
+    finishModules: {
+      tapPromise: jest.fn(),
+    },
   },
   emitAsset: jest.fn(),
+  rebuildModule: jest.fn(),
+  modules: new Set(),
+  warnings: [],
+  errors: [],
 } as unknown as Compilation;
 
+const mockLoaderHook = { tap: jest.fn() };
+const mockBeforeLoadersHook = { tap: jest.fn() };
+
 const mockCompiler = {
   webpack: {
     Compilation: {
       PROCESS_ASSETS_STAGE_ADDITIONAL: "additional",
     },
+    NormalModule: {
+      getCompilationHooks: jest.fn(() => ({ loader: mockLoaderHook, beforeLoaders: mockBeforeLoadersHook })),
+    },
     sources: mockSources,
+    WebpackError: Error,
   },
   hooks: {
     thisCompilation: {
@@ -31,6 +48,21 @@ const mockCompiler = {
   },
 } as unknown as Compiler;
 
+/** The store that the plugin gives the loaders of the latest compilation. */
+function compilationStore(): I18nStore {
+  const calls = mockLoaderHook.tap.mock.calls;
+  const loaderContext = {};
+  calls[calls.length - 1][1](loaderContext);
+  return getLoaderStore(loaderContext);
+}
+
+/** The snapshot the loader keeps in the build info of a module with these messages. */
+function moduleSnapshot(messages: MessageRecord[]): I18nStoreSnapshot {
+  const store = new I18nStore();
+  for (const message of messages) store.add(message);
+  return store.toJSON();
+}
+
 describe("I18nextAutoKeyEmitPlugin", () => {
   beforeEach(() => {
     // Clear all mocks
@@ -48,6 +80,28 @@ describe("I18nextAutoKeyEmitPlugin", () => {
 
       expect(plugin).toBeInstanceOf(I18nextAutoKeyEmitPlugin);
     });
+
+    it("should default jsonOutputPath to the config and fill in the source locale", async () => {
+      const { loadConfig } = jest.requireMock("../../common/config/loadConfig");
+      loadConfig.mockReturnValueOnce({
+        config: { jsonIndentSpaces: 2, sourceLocale: "en-US", jsonOutputPath: "locales/{{lng}}.json" },
+        file: undefined,
+      });
+      const plugin = new I18nextAutoKeyEmitPlugin();
+
+      plugin.apply(mockCompiler);
+      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
+      compilationCallback(mockCompilation);
+      compilationStore().add({ id: "msg1", source: "Hello", ref: { file: "a.ts", line: 1, column: 1 } });
+      const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
+      await processAssetsCallback();
+
+      expect(mockCompilation.emitAsset).toHaveBeenCalledWith("locales/en-US.json", expect.any(Object));
+    });
+
+    it("should throw without a jsonOutputPath in the options or the config", () => {
+      expect(() => new I18nextAutoKeyEmitPlugin()).toThrow("I18nextAutoKeyEmitPlugin needs a jsonOutputPath");
+    });
   });
 
   describe("apply method", () => {
@@ -64,26 +118,28 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       );
     });
 
-    it("should clear i18nStore on new compilation", () => {
+    it("should clear the store on new compilation", () => {
       const plugin = new I18nextAutoKeyEmitPlugin({
         jsonOutputPath: "i18n/en.json",
       });
 
+      plugin.apply(mockCompiler);
+
+      // Get the registered callback and call it
+      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
+      compilationCallback(mockCompilation);
+
       // Add some data to store
-      i18nStore.add({
+      compilationStore().add({
         id: "test",
         source: "Test message",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
-      expect(i18nStore.all().size).toBe(1);
-
-      plugin.apply(mockCompiler);
+      expect(compilationStore().all().size).toBe(1);
 
-      // Get the registered callback and call it
-      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
       compilationCallback(mockCompilation);
 
-      expect(i18nStore.all().size).toBe(0);
+      expect(compilationStore().all().size).toBe(0);
     });
 
     it("should register processAssets hook with correct stage", () => {
@@ -106,7 +162,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
   });
 
   describe("JSON output generation", () => {
-    it("should emit JSON file with entries from i18nStore", async () => {
+    it("should emit JSON file with entries from the store", async () => {
       const plugin = new I18nextAutoKeyEmitPlugin({
         jsonOutputPath: "i18n/en.json",
       });
@@ -116,12 +172,12 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       compilationCallback(mockCompilation);
 
       // Add test data to store AFTER compilation starts (simulating what transformer does)
-      i18nStore.add({
+      compilationStore().add({
         id: "msg1",
         source: "Hello World",
         ref: { file: "test1.ts", line: 10, column: 5 },
       });
-      i18nStore.add({
+      compilationStore().add({
         id: "msg2",
         source: "Goodbye World",
         ref: { file: "test2.ts", line: 20, column: 10 },
@@ -154,17 +210,17 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       compilationCallback(mockCompilation);
 
       // Add entries in non-alphabetical order AFTER compilation starts
-      i18nStore.add({
+      compilationStore().add({
         id: "zebra",
         source: "Z message",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
-      i18nStore.add({
+      compilationStore().add({
         id: "alpha",
         source: "A message",
         ref: { file: "test.ts", line: 2, column: 1 },
       });
-      i18nStore.add({
+      compilationStore().add({
         id: "beta",
         source: "B message",
         ref: { file: "test.ts", line: 3, column: 1 },
@@ -197,17 +253,17 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       const mHash = stableHash("M Message", { hashLength: 10 });
 
       // Add entries in non-sorted order
-      i18nStore.add({
+      compilationStore().add({
         id: zHash,
         source: "Z Message",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
-      i18nStore.add({
+      compilationStore().add({
         id: aHash,
         source: "A Message",
         ref: { file: "test.ts", line: 2, column: 1 },
       });
-      i18nStore.add({
+      compilationStore().add({
         id: mHash,
         source: "M Message",
         ref: { file: "test.ts", line: 3, column: 1 },
@@ -230,6 +286,36 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       expect(jsonContent[mHash]).toBe("M Message");
     });
 
+    it("should emit one JSON file per namespace when jsonOutputPath contains {{ns}}", async () => {
+      const plugin = new I18nextAutoKeyEmitPlugin({
+        jsonOutputPath: "locales/en/{{ns}}.json",
+      });
+
+      plugin.apply(mockCompiler);
+      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
+      compilationCallback(mockCompilation);
+
+      compilationStore().add({
+        id: "msg1",
+        source: "Pay now",
+        namespace: "checkout",
+        ref: { file: "checkout.messages.ts", line: 1, column: 1 },
+      });
+      compilationStore().add({
+        id: "msg2",
+        source: "Hello",
+        ref: { file: "common.messages.ts", line: 1, column: 1 },
+      });
+
+      const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
+      await processAssetsCallback();
+
+      const emitCalls = (mockCompilation.emitAsset as jest.Mock).mock.calls;
+      expect(emitCalls.map((call) => call[0])).toEqual(["locales/en/checkout.json", "locales/en/translation.json"]);
+      expect(JSON.parse(emitCalls[0][1].buffer.toString())).toEqual({ msg1: "Pay now" });
+      expect(JSON.parse(emitCalls[1][1].buffer.toString())).toEqual({ msg2: "Hello" });
+    });
+
     it("should handle empty store gracefully", async () => {
       const plugin = new I18nextAutoKeyEmitPlugin({
         jsonOutputPath: "empty.json",
@@ -258,7 +344,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       compilationCallback(mockCompilation);
 
       // Add test data AFTER compilation starts
-      i18nStore.add({
+      compilationStore().add({
         id: "special",
         source: "Hello \"World\" with 'quotes' and \n newlines \t tabs",
         ref: { file: "test.ts", line: 1, column: 1 },
@@ -280,16 +366,16 @@ describe("I18nextAutoKeyEmitPlugin", () => {
         jsonOutputPath: "i18n\\en.json", // Windows-style path
       });
 
-      i18nStore.add({
+      plugin.apply(mockCompiler);
+      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
+      compilationCallback(mockCompilation);
+
+      compilationStore().add({
         id: "test",
         source: "Test",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
 
-      plugin.apply(mockCompiler);
-      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
-      compilationCallback(mockCompilation);
-
       const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
       await processAssetsCallback();
 
@@ -304,16 +390,16 @@ describe("I18nextAutoKeyEmitPlugin", () => {
         jsonOutputPath: "i18n/subdirectory/messages.json",
       });
 
-      i18nStore.add({
+      plugin.apply(mockCompiler);
+      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
+      compilationCallback(mockCompilation);
+
+      compilationStore().add({
         id: "test",
         source: "Test",
         ref: { file: "test.ts", line: 1, column: 1 },
       });
 
-      plugin.apply(mockCompiler);
-      const compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
-      compilationCallback(mockCompilation);
-
       const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
       await processAssetsCallback();
 
@@ -340,7 +426,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       };
 
       // Add to store manually to simulate edge case
-      (i18nStore as any).map.set("orphan", entry);
+      (compilationStore() as any).map.set("orphan", entry);
 
       const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
       await processAssetsCallback();
@@ -363,7 +449,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       compilationCallback(mockCompilation);
 
       // Add test data AFTER compilation starts
-      i18nStore.add({
+      compilationStore().add({
         id: "no_comments",
         source: "Message without comments",
         ref: { file: "test.ts", line: 1, column: 1 },
@@ -387,7 +473,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
 
       // Add test data AFTER compilation starts
       const longMessage = "A".repeat(10000); // 10KB message
-      i18nStore.add({
+      compilationStore().add({
         id: "long_msg",
         source: longMessage,
         ref: { file: "test.ts", line: 1, column: 1 },
@@ -413,7 +499,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
 
       // Add test data AFTER compilation starts
       const unicodeMessage = "Hello 世界 🌍 Café naïve résumé";
-      i18nStore.add({
+      compilationStore().add({
         id: "unicode",
         source: unicodeMessage,
         ref: { file: "test.ts", line: 1, column: 1 },
@@ -440,36 +526,242 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       compilationCallback(mockCompilation);
 
       // Add data for first compilation
-      i18nStore.add({
+      compilationStore().add({
         id: "msg1",
         source: "First compilation",
         ref: { file: "test1.ts", line: 1, column: 1 },
       });
 
       let processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
-      processAssetsCallback();
+      await processAssetsCallback();
 
       // Second compilation - store should be cleared when compilation callback runs
       compilationCallback = (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1];
       compilationCallback(mockCompilation);
 
-      expect(i18nStore.all().size).toBe(0); // Store should be cleared
+      expect(compilationStore().all().size).toBe(0); // Store should be cleared
 
       // Add data for second compilation
-      i18nStore.add({
+      compilationStore().add({
         id: "msg2",
         source: "Second compilation",
         ref: { file: "test2.ts", line: 1, column: 1 },
       });
 
       processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[1][1];
-      processAssetsCallback();
+      await processAssetsCallback();
 
       // Should have emitted assets twice
       expect(mockCompilation.emitAsset).toHaveBeenCalledTimes(2);
     });
   });
 
+  describe("hooks", () => {
+    it("reports recorded messages and emits the transformed catalog", async () => {
+      const onMessageRecorded = jest.fn();
+      const onCatalogReady = jest.fn();
+      const plugin = new I18nextAutoKeyEmitPlugin({
+        jsonOutputPath: "i18n/en.json",
+        hooks: {
+          onMessageRecorded,
+          transformCatalog: (entries) => [...entries, { ...entries[0], id: "docs.extra", source: "Extra" }],
+          onCatalogReady,
+        },
+      });
+
+      plugin.apply(mockCompiler);
+      (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1](mockCompilation);
+      const message = { id: "msg1", source: "Hello", ref: { file: "test.ts", line: 1, column: 1 } };
+      compilationStore().add(message);
+
+      const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
+      await processAssetsCallback();
+
+      expect(onMessageRecorded).toHaveBeenCalledWith(message);
+      expect(onCatalogReady).toHaveBeenCalledWith([
+        expect.objectContaining({ id: "msg1" }),
+        expect.objectContaining({ id: "docs.extra" }),
+      ]);
+      const emitCall = (mockCompilation.emitAsset as jest.Mock).mock.calls[0];
+      expect(JSON.parse(emitCall[1].buffer.toString())).toEqual({ "docs.extra": "Extra", msg1: "Hello" });
+    });
+  });
+
+  describe("Cached modules", () => {
+    afterEach(() => {
+      (mockCompilation.modules as Set<unknown>).clear();
+    });
+
+    it("emits the messages kept in the build info of modules that skipped the loader", async () => {
+      const plugin = new I18nextAutoKeyEmitPlugin({
+        jsonOutputPath: "i18n/en.json",
+      });
+
+      plugin.apply(mockCompiler);
+      (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1](mockCompilation);
+
+      // One module ran the loader in this compilation, the other was restored from the cache
+      const fresh = { id: "fresh", source: "Fresh", ref: { file: "fresh.messages.ts", line: 1, column: 1 } };
+      const cached = { id: "cached", source: "Cached", ref: { file: "cached.messages.ts", line: 1, column: 1 } };
+      compilationStore().add(fresh);
+      const modules = mockCompilation.modules as Set<unknown>;
+      modules.add({ buildInfo: { i18nextAutoKeysSnapshot: moduleSnapshot([fresh]) } });
+      modules.add({ buildInfo: { i18nextAutoKeysSnapshot: moduleSnapshot([cached]) } });
+      modules.add({ buildInfo: {} });
+
+      const finishModulesCallback = (mockCompilation.hooks.finishModules.tapPromise as jest.Mock).mock.calls[0][1];
+      await finishModulesCallback(modules);
+      const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
+      await processAssetsCallback();
+
+      const emitCall = (mockCompilation.emitAsset as jest.Mock).mock.calls[0];
+      expect(JSON.parse(emitCall[1].buffer.toString())).toEqual({ cached: "Cached", fresh: "Fresh" });
+    });
+
+    describe("key collisions", () => {
+      const ref = (file: string) => ({ file, line: 1, column: 1 });
+
+      /** The snapshot of a module whose message claimed the key, as the loader leaves it. */
+      function claimingSnapshot(store: I18nStore, id: string, source: string, file: string): I18nStoreSnapshot {
+        const key = store.claimKey(id, source, undefined, ref(file)) ? id : `${id}-derived`;
+        store.add({ id: key, source, ref: ref(file) });
+        return store.toJSON();
+      }
+
+      beforeEach(() => {
+        (mockCompilation.errors as unknown[]).length = 0;
+        (mockCompilation.warnings as unknown[]).length = 0;
+      });
+
+      /** Build a compilation with a module restored from the cache that was given the shared key before its owner. */
+      async function buildWithStaleModule() {
+        const plugin = new I18nextAutoKeyEmitPlugin({ jsonOutputPath: "i18n/en.json" });
+        plugin.apply(mockCompiler);
+        (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1](mockCompilation);
+
+        const cached = {
+          buildInfo: { i18nextAutoKeysSnapshot: claimingSnapshot(new I18nStore(), "k", "Zebra", "z.ts") },
+        };
+        const owner = {
+          buildInfo: { i18nextAutoKeysSnapshot: claimingSnapshot(new I18nStore(), "k", "Apple", "a.ts") },
+        };
+        const modules = mockCompilation.modules as Set<unknown>;
+        modules.add(cached);
+        modules.add(owner);
+
+        const finishModulesCallback = (mockCompilation.hooks.finishModules.tapPromise as jest.Mock).mock.calls[0][1];
+        await finishModulesCallback(modules);
+        const processAssetsCallback = (mockCompilation.hooks.processAssets.tapPromise as jest.Mock).mock.calls[0][1];
+        await processAssetsCallback();
+        return cached;
+      }
+
+      it("runs the loader again on a module given a key that another message keeps", async () => {
+        // The loader resolves the key against the claims of the compilation's store
+        (mockCompilation.rebuildModule as jest.Mock).mockImplementation((module, callback) => {
+          const snapshot = claimingSnapshot(compilationStore().forModule(), "k", "Zebra", "z.ts");
+          module.buildInfo = { i18nextAutoKeysSnapshot: snapshot };
+          callback(null, module);
+        });
+
+        const cached = await buildWithStaleModule();
+
+        expect(mockCompilation.rebuildModule).toHaveBeenCalledTimes(1);
+        expect(mockCompilation.rebuildModule).toHaveBeenCalledWith(cached, expect.any(Function));
+        expect(mockCompilation.errors).toEqual([]);
+        expect(mockCompilation.warnings).toEqual([
+          expect.objectContaining({ message: expect.stringContaining('Key "k"') }),
+        ]);
+        const emitCall = (mockCompilation.emitAsset as jest.Mock).mock.calls[0];
+        expect(JSON.parse(emitCall[1].buffer.toString())).toEqual({ k: "Apple", "k-derived": "Zebra" });
+      });
+
+      it("reports an error when the module still uses the shared key after running the loader again", async () => {
+        // e.g. a thread-loader worker, which can't see the claims of other modules
+        (mockCompilation.rebuildModule as jest.Mock).mockImplementation((module, callback) => callback(null, module));
+
+        await buildWithStaleModule();
+
+        expect(mockCompilation.errors).toEqual([
+          expect.objectContaining({ message: expect.stringContaining("already emitted with the shared key") }),
+        ]);
+      });
+    });
+  });
+
+  describe("thread-loader", () => {
+    const threadLoader = "/project/node_modules/thread-loader/dist/cjs.js";
+
+    function loadersOf(chain: string[]) {
+      const plugin = new I18nextAutoKeyEmitPlugin({
+        jsonOutputPath: "i18n/en.json",
+      });
+      plugin.apply(mockCompiler);
+      (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1](mockCompilation);
+
+      const loaders = chain.map((loader) => ({ loader, options: {} }));
+      mockBeforeLoadersHook.tap.mock.calls[0][1](loaders);
+      return loaders;
+    }
+
+    afterEach(() => {
+      (mockCompilation.warnings as unknown[]).length = 0;
+    });
+
+    it("collects the messages of a loader running in a worker in front of thread-loader", () => {
+      const loaders = loadersOf(["/project/node_modules/ts-loader/index.js", threadLoader, loaderPath]);
+
+      expect(loaders.map((entry) => entry.loader)).toEqual([
+        "/project/node_modules/ts-loader/index.js",
+        loaderPath,
+        threadLoader,
+        loaderPath,
+      ]);
+      expect(loaders[1].options).toEqual({ collect: true });
+      expect(mockCompilation.warnings).toHaveLength(0);
+    });
+
+    it("warns when other loaders run after it in the worker", () => {
+      const loaders = loadersOf([threadLoader, "/project/node_modules/ts-loader/index.js", loaderPath]);
+
+      expect(loaders[0]).toEqual({ loader: loaderPath, options: { collect: true } });
+      expect(mockCompilation.warnings).toHaveLength(1);
+    });
+
+    it("leaves modules without thread-loader alone", () => {
+      const loaders = loadersOf(["/project/node_modules/ts-loader/index.js", loaderPath]);
+
+      expect(loaders).toHaveLength(2);
+    });
+  });
+
+  describe("Multiple compilers", () => {
+    it("gives each compiler its own store", () => {
+      const plugin = new I18nextAutoKeyEmitPlugin({
+        jsonOutputPath: "i18n/en.json",
+      });
+      const serverCompiler = {
+        ...mockCompiler,
+        hooks: { thisCompilation: { tap: jest.fn() } },
+      } as unknown as Compiler;
+
+      plugin.apply(mockCompiler);
+      plugin.apply(serverCompiler);
+      (mockCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1](mockCompilation);
+      const clientStore = compilationStore();
+      clientStore.add({ id: "client", source: "Client", ref: { file: "client.ts", line: 1, column: 1 } });
+
+      // Starting the server compilation doesn't clear the client's messages
+      (serverCompiler.hooks.thisCompilation.tap as jest.Mock).mock.calls[0][1](mockCompilation);
+      const serverStore = compilationStore();
+
+      expect(serverStore).not.toBe(clientStore);
+      expect(serverStore.all().size).toBe(0);
+      expect(clientStore.all().size).toBe(1);
+      expect(i18nStore.all().size).toBe(0);
+    });
+  });
+
   describe("Integration scenarios", () => {
     it("should work with complex real-world data", async () => {
       const plugin = new I18nextAutoKeyEmitPlugin({
@@ -505,7 +797,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
 
       testData.forEach((data) => {
         data.refs.forEach((ref, i) => {
-          i18nStore.add({
+          compilationStore().add({
             id: data.id,
             source: data.source,
             ref: ref,
@@ -528,7 +820,7 @@ describe("I18nextAutoKeyEmitPlugin", () => {
       });
 
       // Verify entries have correct references
-      const entries = Array.from(i18nStore.all().values());
+      const entries = Array.from(compilationStore().all().values());
       const authEntry = entries.find((e) => e.id === "auth.login.error.invalid_credentials");
       const saveEntry = entries.find((e) => e.id === "common.buttons.save");
 